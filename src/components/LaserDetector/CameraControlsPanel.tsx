@@ -0,0 +1,178 @@
+import React from 'react';
+import { Aperture, Flashlight, Focus, Sun, Thermometer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { toast } from '@/components/ui/sonner';
+import { CameraCapabilities, CameraControls, ControlRange } from '@/lib/laser/cameraControls';
+
+interface CameraControlsPanelProps {
+  capabilities: CameraCapabilities;
+  controls: CameraControls;
+  onControlsChange: (controls: CameraControls) => Promise<boolean>;
+}
+
+interface RangeControlProps {
+  label: (value: number) => string;
+  range: ControlRange;
+  value: number | null;
+  onChange: (value: number) => void;
+}
+
+// Follows the drag locally and hands the value on once it is released, so
+// the camera gets one constraint change per adjustment
+function RangeControl({ label, range, value, onChange }: RangeControlProps) {
+  const [draft, setDraft] = React.useState<number | null>(null);
+  const current = draft ?? value ?? range.min;
+  return (
+    <div className="space-y-2 pl-6">
+      <Label className="text-sm text-muted-foreground">{label(current)}</Label>
+      <Slider
+        value={[current]}
+        onValueChange={values => setDraft(values[0])}
+        onValueCommit={values => {
+          setDraft(null);
+          onChange(values[0]);
+        }}
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        className="w-full"
+      />
+    </div>
+  );
+}
+
+export function CameraControlsPanel({
+  capabilities,
+  controls,
+  onControlsChange
+}: CameraControlsPanelProps) {
+  const update = async (changes: Partial<CameraControls>) => {
+    const applied = await onControlsChange({ ...controls, ...changes });
+    if (!applied) {
+      toast.error('Камера не підтримує це налаштування');
+    }
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="secondary" size="icon" className="control-button">
+          <Aperture className="w-6 h-6" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="bg-card border-border h-auto max-h-[80vh] overflow-y-auto safe-area-inset">
+        <SheetHeader className="pb-4">
+          <SheetTitle className="text-foreground flex items-center gap-2">
+            <Aperture className="w-5 h-5" />
+            Камера
+          </SheetTitle>
+        </SheetHeader>
+
+        <div className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            Зафіксуйте експозицію та баланс білого, щоб промінь не пересвічувався і не змінював колір.
+            Налаштування зберігаються для цієї камери
+          </p>
+
+          {/* Exposure */}
+          {capabilities.manualExposure && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="flex items-center gap-2 text-foreground">
+                  <Sun className="w-4 h-4" />
+                  Фіксована експозиція
+                </Label>
+                <Switch
+                  checked={controls.exposureLocked}
+                  onCheckedChange={checked => update({ exposureLocked: checked })}
+                />
+              </div>
+              {controls.exposureLocked && capabilities.exposureTime && (
+                <RangeControl
+                  label={value => `Витримка: ${(value / 10).toFixed(1)} мс`}
+                  range={capabilities.exposureTime}
+                  value={controls.exposureTime}
+                  onChange={exposureTime => update({ exposureTime })}
+                />
+              )}
+              {controls.exposureLocked && capabilities.iso && (
+                <RangeControl
+                  label={value => `ISO: ${Math.round(value)}`}
+                  range={capabilities.iso}
+                  value={controls.iso}
+                  onChange={iso => update({ iso })}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Focus */}
+          {capabilities.manualFocus && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="flex items-center gap-2 text-foreground">
+                  <Focus className="w-4 h-4" />
+                  Фіксований фокус
+                </Label>
+                <Switch
+                  checked={controls.focusLocked}
+                  onCheckedChange={checked => update({ focusLocked: checked })}
+                />
+              </div>
+              {controls.focusLocked && capabilities.focusDistance && (
+                <RangeControl
+                  label={value => `Відстань фокусу: ${value.toFixed(2)} м`}
+                  range={capabilities.focusDistance}
+                  value={controls.focusDistance}
+                  onChange={focusDistance => update({ focusDistance })}
+                />
+              )}
+            </div>
+          )}
+
+          {/* White Balance */}
+          {capabilities.manualWhiteBalance && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="flex items-center gap-2 text-foreground">
+                  <Thermometer className="w-4 h-4" />
+                  Фіксований баланс білого
+                </Label>
+                <Switch
+                  checked={controls.whiteBalanceLocked}
+                  onCheckedChange={checked => update({ whiteBalanceLocked: checked })}
+                />
+              </div>
+              {controls.whiteBalanceLocked && capabilities.colorTemperature && (
+                <RangeControl
+                  label={value => `Температура: ${Math.round(value)} K`}
+                  range={capabilities.colorTemperature}
+                  value={controls.colorTemperature}
+                  onChange={colorTemperature => update({ colorTemperature })}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Torch */}
+          {capabilities.torch && (
+            <div className="flex items-center justify-between">
+              <Label className="flex items-center gap-2 text-foreground">
+                <Flashlight className="w-4 h-4" />
+                Ліхтарик
+              </Label>
+              <Switch
+                checked={controls.torch}
+                onCheckedChange={checked => update({ torch: checked })}
+              />
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,5 +1,10 @@
 import React from 'react';
-import { DetectionResult, DetectorSettings } from '@/hooks/useLaserDetector';
+import { Beam, DetectionResult, DetectorSettings, RegionOfInterest } from '@/hooks/useLaserDetector';
+import { LaserColor } from '@/lib/laser/color';
+import { ExclusionMask } from '@/lib/laser/exclusionMask';
+import { LineFit } from '@/lib/laser/lineFit';
+import { MaskEditor } from './MaskEditor';
+import { RegionEditor } from './RegionEditor';
 
 interface CameraViewProps {
   videoRef: React.RefObject<HTMLVideoElement>;
@@ -7,6 +12,31 @@ interface CameraViewProps {
   detection: DetectionResult;
   settings: DetectorSettings;
   cameraActive: boolean;
+  onSelectBeam: (beam: Beam | null) => void;
+  sampling: boolean;
+  onSample: (x: number, y: number) => void;
+  roiEditing: boolean;
+  onRoiChange: (roi: RegionOfInterest | null) => void;
+  onRoiEditDone: () => void;
+  maskEditing: boolean;
+  onMaskChange: (mask: ExclusionMask | null) => void;
+  onMaskEditDone: () => void;
+}
+
+// HSL components to draw a detected color with; red keeps the default primary styling
+function laserHsl(color: LaserColor | null, settings: DetectorSettings): string | null {
+  switch (color) {
+    case 'green':
+      return 'var(--laser-green)';
+    case 'blue':
+      return 'var(--laser-blue)';
+    case 'custom':
+      return `${settings.customHue.center} 100% 55%`;
+    case 'learned':
+      return settings.colorProfile ? `${settings.colorProfile.hue.center} 100% 55%` : null;
+    default:
+      return null;
+  }
 }
 
 export function CameraView({ 
@@ -14,7 +44,16 @@ export function CameraView({
   canvasRef, 
   detection, 
   settings,
-  cameraActive 
+  cameraActive,
+  onSelectBeam,
+  sampling,
+  onSample,
+  roiEditing,
+  onRoiChange,
+  onRoiEditDone,
+  maskEditing,
+  onMaskChange,
+  onMaskEditDone 
 }: CameraViewProps) {
   const containerRef = React.useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = React.useState({ width: 0, height: 0 });
@@ -34,19 +73,17 @@ export function CameraView({
     return () => window.removeEventListener('resize', updateDimensions);
   }, []);
 
-  // Calculate marker position relative to display
-  const getMarkerPosition = () => {
-    if (!videoRef.current || !detection.found) return null;
-
+  // Map a point from video pixels to display pixels
+  const toDisplay = (px: number, py: number) => {
     const video = videoRef.current;
-    const videoWidth = video.videoWidth || 1;
-    const videoHeight = video.videoHeight || 1;
+    const videoWidth = video?.videoWidth || 1;
+    const videoHeight = video?.videoHeight || 1;
 
     const scaleX = dimensions.width / videoWidth;
     const scaleY = dimensions.height / videoHeight;
 
-    let x = detection.x * scaleX;
-    let y = detection.y * scaleY;
+    let x = px * scaleX;
+    const y = py * scaleY;
 
     // Apply mirror if needed
     if (settings.mirror) {
@@ -56,7 +93,73 @@ export function CameraView({
     return { x, y };
   };
 
+  // Inverse of toDisplay, for taps on the view
+  const toVideo = (dx: number, dy: number) => {
+    const video = videoRef.current;
+    const videoWidth = video?.videoWidth || 1;
+    const videoHeight = video?.videoHeight || 1;
+
+    const x = settings.mirror ? dimensions.width - dx : dx;
+    return {
+      x: (x * videoWidth) / (dimensions.width || 1),
+      y: (dy * videoHeight) / (dimensions.height || 1),
+    };
+  };
+
+  // offsetX/Y are in the container's own coordinates, so the rotation is already undone
+  const handleSampleTap = (e: React.MouseEvent<HTMLDivElement>) => {
+    const point = toVideo(e.nativeEvent.offsetX, e.nativeEvent.offsetY);
+    onSample(point.x, point.y);
+  };
+
+  // Frame fractions, as stored in the region of interest
+  const toFrame = (dx: number, dy: number) => {
+    const video = videoRef.current;
+    const point = toVideo(dx, dy);
+    return { x: point.x / (video?.videoWidth || 1), y: point.y / (video?.videoHeight || 1) };
+  };
+
+  const toDisplayRect = (region: RegionOfInterest) => {
+    const video = videoRef.current;
+    const videoWidth = video?.videoWidth || 1;
+    const videoHeight = video?.videoHeight || 1;
+    const a = toDisplay(region.x * videoWidth, region.y * videoHeight);
+    const b = toDisplay((region.x + region.width) * videoWidth, (region.y + region.height) * videoHeight);
+    return {
+      left: Math.min(a.x, b.x),
+      top: Math.min(a.y, b.y),
+      width: Math.abs(b.x - a.x),
+      height: Math.abs(b.y - a.y),
+    };
+  };
+
+  // Calculate marker position relative to display
+  const getMarkerPosition = () => {
+    if (!videoRef.current || !detection.found) return null;
+    return toDisplay(detection.x, detection.y);
+  };
+
+  // Fitted line as a display-space anchor point and angle
+  const getDisplayLine = (line: LineFit) => {
+    const a = toDisplay(line.x, line.y);
+    const b = toDisplay(line.x + line.dirX * 100, line.y + line.dirY * 100);
+    return { ...a, angle: (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI };
+  };
+
   const markerPos = getMarkerPosition();
+  const fittedLines = detection.cross
+    ? [detection.cross.horizontal, detection.cross.vertical]
+    : detection.line
+      ? [detection.line]
+      : [];
+  const displayLines = markerPos ? fittedLines.map(getDisplayLine) : [];
+  const lineLength = Math.hypot(dimensions.width, dimensions.height) * 2;
+
+  const beamHsl = laserHsl(detection.detectedColor, settings);
+  const beamColor = beamHsl ? `hsl(${beamHsl})` : 'hsl(var(--primary))';
+  const beamGlow = beamHsl
+    ? `0 0 8px hsl(${beamHsl}), 0 0 16px hsl(${beamHsl} / 0.5)`
+    : undefined;
 
   const rotationStyle = settings.rotation !== 0 
     ? { transform: `rotate(${settings.rotation}deg)` } 
@@ -95,35 +198,47 @@ export function CameraView({
       {/* Detection marker */}
       {detection.found && markerPos && (
         <>
-          {/* Crosshair lines */}
-          <div 
-            className="crosshair-line h-[2px]"
-            style={{
-              left: 0,
-              right: 0,
-              top: markerPos.y,
-              backgroundColor: detection.detectedColor === 'green' 
-                ? 'hsl(var(--laser-green))' 
-                : 'hsl(var(--primary))',
-              boxShadow: detection.detectedColor === 'green'
-                ? '0 0 8px hsl(var(--laser-green)), 0 0 16px hsl(var(--laser-green) / 0.5)'
-                : undefined,
-            }}
-          />
-          <div 
-            className="crosshair-line w-[2px]"
-            style={{
-              top: 0,
-              bottom: 0,
-              left: markerPos.x,
-              backgroundColor: detection.detectedColor === 'green' 
-                ? 'hsl(var(--laser-green))' 
-                : 'hsl(var(--primary))',
-              boxShadow: detection.detectedColor === 'green'
-                ? '0 0 8px hsl(var(--laser-green)), 0 0 16px hsl(var(--laser-green) / 0.5)'
-                : undefined,
-            }}
-          />
+          {displayLines.length > 0 ? (
+            /* Fitted laser lines */
+            displayLines.map((line, index) => (
+              <div 
+                key={index}
+                className="crosshair-line h-[2px]"
+                style={{
+                  left: line.x - lineLength / 2,
+                  top: line.y - 1,
+                  width: lineLength,
+                  transform: `rotate(${line.angle}deg)`,
+                  backgroundColor: beamColor,
+                  boxShadow: beamGlow,
+                }}
+              />
+            ))
+          ) : (
+            <>
+              {/* Crosshair lines */}
+              <div 
+                className="crosshair-line h-[2px]"
+                style={{
+                  left: 0,
+                  right: 0,
+                  top: markerPos.y,
+                  backgroundColor: beamColor,
+                  boxShadow: beamGlow,
+                }}
+              />
+              <div 
+                className="crosshair-line w-[2px]"
+                style={{
+                  top: 0,
+                  bottom: 0,
+                  left: markerPos.x,
+                  backgroundColor: beamColor,
+                  boxShadow: beamGlow,
+                }}
+              />
+            </>
+          )}
 
           {/* Center marker */}
           <div 
@@ -131,16 +246,85 @@ export function CameraView({
             style={{
               left: markerPos.x,
               top: markerPos.y,
-              borderColor: detection.detectedColor === 'green' 
-                ? 'hsl(var(--laser-green))' 
-                : 'hsl(var(--primary))',
-              boxShadow: detection.detectedColor === 'green'
-                ? '0 0 20px hsl(var(--laser-green)), 0 0 40px hsl(var(--laser-green) / 0.5)'
+              borderColor: beamColor,
+              boxShadow: beamHsl
+                ? `0 0 20px hsl(${beamHsl}), 0 0 40px hsl(${beamHsl} / 0.5)`
                 : undefined,
+              // Faded while the tracker bridges a dropout
+              opacity: detection.predicted ? 0.5 : 1,
             }}
           />
+
+          {/* Every beam in frame; tap one to make it drive the readout */}
+          {!detection.predicted && detection.beams.length > 1 && detection.beams.map((beam, index) => {
+            const pos = toDisplay(beam.x, beam.y);
+            const isPrimary = index === detection.primaryBeam;
+            const hsl = laserHsl(beam.detectedColor, settings);
+            return (
+              <button
+                key={index}
+                type="button"
+                className="absolute flex items-center justify-center w-7 h-7 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 text-xs font-bold font-mono bg-card/70 text-foreground"
+                style={{
+                  left: pos.x,
+                  top: pos.y - 28,
+                  borderColor: hsl ? `hsl(${hsl})` : 'hsl(var(--primary))',
+                  opacity: isPrimary ? 1 : 0.7,
+                }}
+                onClick={() => onSelectBeam(isPrimary ? null : beam)}
+              >
+                {index + 1}
+              </button>
+            );
+          })}
+
+          {/* Angle between the lines of a cross */}
+          {detection.cross && (
+            <div
+              className="absolute px-2 py-0.5 rounded bg-card/80 text-xs font-mono text-foreground pointer-events-none"
+              style={{ left: markerPos.x + 20, top: markerPos.y + 20 }}
+            >
+              {detection.cross.angleBetween.toFixed(1)}°
+            </div>
+          )}
         </>
       )}
+
+      {/* Excluded areas */}
+      {cameraActive && (
+        <MaskEditor
+          mask={settings.exclusionMask}
+          editing={maskEditing}
+          mirror={settings.mirror}
+          toFrame={toFrame}
+          onMaskChange={onMaskChange}
+          onDone={onMaskEditDone}
+        />
+      )}
+
+      {/* Region of interest */}
+      {cameraActive && (
+        <RegionEditor
+          region={settings.roi}
+          editing={roiEditing}
+          toFrame={toFrame}
+          toDisplayRect={toDisplayRect}
+          onRegionChange={onRoiChange}
+          onDone={onRoiEditDone}
+        />
+      )}
+
+      {/* Tap-to-sample overlay */}
+      {cameraActive && sampling && (
+        <div
+          className="absolute inset-0 cursor-crosshair"
+          onClick={handleSampleTap}
+        >
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full bg-card/90 text-sm text-foreground pointer-events-none">
+            Торкніться променя
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,7 +1,10 @@
 import React from 'react';
-import { Camera, CameraOff, Download, Target } from 'lucide-react';
+import { Brush, Camera, CameraOff, Crop, Download, Pipette, Target } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/sonner';
 import { useLaserDetector } from '@/hooks/useLaserDetector';
+import { hasCameraControls } from '@/lib/laser/cameraControls';
+import { CameraControlsPanel } from './CameraControlsPanel';
 import { CameraView } from './CameraView';
 import { StatusBar } from './StatusBar';
 import { SettingsPanel } from './SettingsPanel';
@@ -16,8 +19,19 @@ export function LaserDetectorApp() {
     startCamera,
     stopCamera,
     startCalibration,
+    startFlatFieldCalibration,
+    clearFlatField,
+    selectBeam,
+    sampleColor,
+    updateCameraControls,
   } = useLaserDetector();
 
+  // Which tool, if any, takes over taps on the camera view
+  const [overlayTool, setOverlayTool] = React.useState<'sample' | 'roi' | 'mask' | null>(null);
+  const toggleTool = (tool: 'sample' | 'roi' | 'mask') => {
+    setOverlayTool(current => (current === tool ? null : tool));
+  };
+
   const [deferredPrompt, setDeferredPrompt] = React.useState<any>(null);
   const [canInstall, setCanInstall] = React.useState(false);
 
@@ -43,6 +57,15 @@ export function LaserDetectorApp() {
     }
   };
 
+  const handleSample = (x: number, y: number) => {
+    setOverlayTool(null);
+    if (sampleColor(x, y)) {
+      toast.success('Колір променя збережено');
+    } else {
+      toast.error('Промінь не розпізнано, торкніться ближче до його центру');
+    }
+  };
+
   return (
     <div className="fixed inset-0 flex flex-col bg-background safe-area-inset">
       {/* Header */}
@@ -70,7 +93,9 @@ export function LaserDetectorApp() {
         <StatusBar 
           detection={state.detection} 
           fps={state.fps}
+          processingScale={state.processingScale}
           calibrating={state.calibrating}
+          flatFieldCalibrating={state.flatFieldCalibrating}
         />
       )}
 
@@ -83,6 +108,15 @@ export function LaserDetectorApp() {
           detection={state.detection}
           settings={settings}
           cameraActive={state.cameraActive}
+          onSelectBeam={selectBeam}
+          sampling={overlayTool === 'sample'}
+          onSample={handleSample}
+          roiEditing={overlayTool === 'roi'}
+          onRoiChange={roi => setSettings({ ...settings, roi })}
+          onRoiEditDone={() => setOverlayTool(null)}
+          maskEditing={overlayTool === 'mask'}
+          onMaskChange={exclusionMask => setSettings(s => ({ ...s, exclusionMask }))}
+          onMaskEditDone={() => setOverlayTool(null)}
         />
 
         {/* Intro overlay (shown when camera is not active) */}
@@ -150,12 +184,51 @@ export function LaserDetectorApp() {
             <CameraOff className="w-6 h-6" />
           </Button>
 
+          <Button
+            variant={overlayTool === 'sample' ? 'default' : 'secondary'}
+            size="icon"
+            className="control-button"
+            onClick={() => toggleTool('sample')}
+          >
+            <Pipette className="w-6 h-6" />
+          </Button>
+
+          <Button
+            variant={overlayTool === 'roi' ? 'default' : 'secondary'}
+            size="icon"
+            className="control-button"
+            onClick={() => toggleTool('roi')}
+          >
+            <Crop className="w-6 h-6" />
+          </Button>
+
+          <Button
+            variant={overlayTool === 'mask' ? 'default' : 'secondary'}
+            size="icon"
+            className="control-button"
+            onClick={() => toggleTool('mask')}
+          >
+            <Brush className="w-6 h-6" />
+          </Button>
+
+          {state.cameraCapabilities && hasCameraControls(state.cameraCapabilities) && (
+            <CameraControlsPanel
+              capabilities={state.cameraCapabilities}
+              controls={state.cameraControls}
+              onControlsChange={updateCameraControls}
+            />
+          )}
+
           <SettingsPanel
             settings={settings}
             onSettingsChange={setSettings}
             onCalibrate={startCalibration}
             calibrating={state.calibrating}
             calibrationComplete={state.calibrationComplete}
+            onFlatFieldCalibrate={startFlatFieldCalibration}
+            onFlatFieldClear={clearFlatField}
+            flatFieldActive={state.flatFieldActive}
+            flatFieldCalibrating={state.flatFieldCalibrating}
           />
         </footer>
       )}
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { paintMask, ExclusionMask } from '@/lib/laser/exclusionMask';
+
+type BrushMode = 'paint' | 'erase';
+
+interface MaskEditorProps {
+  mask: ExclusionMask | null;
+  editing: boolean;
+  mirror: boolean;
+  // Converts a point in the overlay's own coordinates to frame fractions
+  toFrame: (offsetX: number, offsetY: number) => { x: number; y: number };
+  onMaskChange: (mask: ExclusionMask | null) => void;
+  onDone: () => void;
+}
+
+// Brush radius as a fraction of the frame height
+const BRUSH_RADIUS = 0.05;
+// Same hue as --destructive; canvas cannot read CSS variables
+const MASK_FILL = 'hsl(0 72% 51% / 0.4)';
+
+export function MaskEditor({
+  mask,
+  editing,
+  mirror,
+  toFrame,
+  onMaskChange,
+  onDone
+}: MaskEditorProps) {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const [brush, setBrush] = React.useState<BrushMode>('paint');
+  // The mask as the current stroke leaves it, null while not painting. It
+  // reaches the settings on pointerup, so the detector restarts once per stroke.
+  const [stroke, setStroke] = React.useState<ExclusionMask | null>(null);
+  // Pointer events can outrun renders, so each dab builds on this, not the state
+  const strokeRef = React.useRef<ExclusionMask | null>(null);
+  const shown = stroke ?? mask;
+
+  // One canvas pixel per mask cell, stretched over the view
+  React.useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!shown) return;
+
+    canvas.width = shown.cols;
+    canvas.height = shown.rows;
+    ctx.fillStyle = MASK_FILL;
+    for (let row = 0; row < shown.rows; row++) {
+      for (let col = 0; col < shown.cols; col++) {
+        if (shown.cells[row * shown.cols + col]) {
+          ctx.fillRect(col, row, 1, 1);
+        }
+      }
+    }
+  }, [shown]);
+
+  const paintAt = (e: React.PointerEvent<HTMLDivElement>, base: ExclusionMask | null) => {
+    const p = toFrame(e.nativeEvent.offsetX, e.nativeEvent.offsetY);
+    strokeRef.current = paintMask(base, p.x, p.y, BRUSH_RADIUS, brush === 'paint');
+    setStroke(strokeRef.current);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    paintAt(e, mask);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (strokeRef.current) paintAt(e, strokeRef.current);
+  };
+
+  const finishStroke = () => {
+    if (!strokeRef.current) return;
+    onMaskChange(strokeRef.current);
+    strokeRef.current = null;
+    setStroke(null);
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        style={{ imageRendering: 'pixelated', transform: mirror ? 'scaleX(-1)' : 'none' }}
+      />
+
+      {editing && (
+        <div
+          className="absolute inset-0 cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={finishStroke}
+          onPointerCancel={finishStroke}
+        >
+          <div
+            className="absolute top-4 left-1/2 -translate-x-1/2 flex gap-2 p-1 rounded-full bg-card/90"
+            onPointerDown={e => e.stopPropagation()}
+          >
+            <Button
+              variant={brush === 'paint' ? 'default' : 'secondary'}
+              size="sm"
+              className="rounded-full"
+              onClick={() => setBrush('paint')}
+            >
+              Закрити
+            </Button>
+            <Button
+              variant={brush === 'erase' ? 'default' : 'secondary'}
+              size="sm"
+              className="rounded-full"
+              onClick={() => setBrush('erase')}
+            >
+              Стерти
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              className="rounded-full"
+              onClick={() => onMaskChange(null)}
+            >
+              Очистити
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              className="rounded-full"
+              onClick={onDone}
+            >
+              Готово
+            </Button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,123 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { RegionOfInterest } from '@/hooks/useLaserDetector';
+
+type RegionShape = 'rect' | 'band';
+
+interface RegionEditorProps {
+  region: RegionOfInterest | null;
+  editing: boolean;
+  // Converts a point in the overlay's own coordinates to frame fractions
+  toFrame: (offsetX: number, offsetY: number) => { x: number; y: number };
+  // Display rectangle of a region, in the overlay's own coordinates
+  toDisplayRect: (region: RegionOfInterest) => { left: number; top: number; width: number; height: number };
+  onRegionChange: (region: RegionOfInterest | null) => void;
+  onDone: () => void;
+}
+
+// Smaller drags are taken as a stray tap
+const MIN_REGION_SIZE = 0.03;
+
+export function RegionEditor({
+  region,
+  editing,
+  toFrame,
+  toDisplayRect,
+  onRegionChange,
+  onDone
+}: RegionEditorProps) {
+  const [shape, setShape] = React.useState<RegionShape>('rect');
+  const [dragStart, setDragStart] = React.useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = React.useState<RegionOfInterest | null>(null);
+
+  const regionBetween = (a: { x: number; y: number }, b: { x: number; y: number }): RegionOfInterest => {
+    const y = Math.min(a.y, b.y);
+    const height = Math.abs(a.y - b.y);
+    if (shape === 'band') {
+      return { x: 0, y, width: 1, height };
+    }
+    return { x: Math.min(a.x, b.x), y, width: Math.abs(a.x - b.x), height };
+  };
+
+  const pointOf = (e: React.PointerEvent<HTMLDivElement>) => {
+    const p = toFrame(e.nativeEvent.offsetX, e.nativeEvent.offsetY);
+    return { x: Math.min(1, Math.max(0, p.x)), y: Math.min(1, Math.max(0, p.y)) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(pointOf(e));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart) {
+      setDraft(regionBetween(dragStart, pointOf(e)));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.height >= MIN_REGION_SIZE && draft.width >= MIN_REGION_SIZE) {
+      onRegionChange(draft);
+      onDone();
+    }
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const shown = draft ?? region;
+
+  return (
+    <>
+      {shown && (
+        <div
+          className="absolute border-2 border-dashed border-primary/80 pointer-events-none"
+          style={toDisplayRect(shown)}
+        />
+      )}
+
+      {editing && (
+        <div
+          className="absolute inset-0 cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <div
+            className="absolute top-4 left-1/2 -translate-x-1/2 flex gap-2 p-1 rounded-full bg-card/90"
+            onPointerDown={e => e.stopPropagation()}
+          >
+            <Button
+              variant={shape === 'rect' ? 'default' : 'secondary'}
+              size="sm"
+              className="rounded-full"
+              onClick={() => setShape('rect')}
+            >
+              Прямокутник
+            </Button>
+            <Button
+              variant={shape === 'band' ? 'default' : 'secondary'}
+              size="sm"
+              className="rounded-full"
+              onClick={() => setShape('band')}
+            >
+              Смуга
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              className="rounded-full"
+              onClick={() => {
+                onRegionChange(null);
+                onDone();
+              }}
+            >
+              Весь кадр
+            </Button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
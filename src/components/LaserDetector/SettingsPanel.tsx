@@ -1,11 +1,12 @@
 import React from 'react';
-import { Settings, RotateCw, FlipHorizontal2, Gauge, Palette, Sparkles, Zap } from 'lucide-react';
+import { Activity, Aperture, BatteryMedium, Grid3x3, Layers, Lock, Move, Settings, RotateCw, FlipHorizontal2, Gauge, Palette, ScanLine, Sparkles, Zap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
-import { DetectorSettings, ColorMode } from '@/hooks/useLaserDetector';
+import { DetectorSettings, ColorMode, DetectionMode } from '@/hooks/useLaserDetector';
+import { QualityPreset } from '@/lib/laser/qualityController';
 
 interface SettingsPanelProps {
   settings: DetectorSettings;
@@ -13,6 +14,10 @@ interface SettingsPanelProps {
   onCalibrate: () => void;
   calibrating: boolean;
   calibrationComplete: boolean;
+  onFlatFieldCalibrate: () => void;
+  onFlatFieldClear: () => void;
+  flatFieldActive: boolean;
+  flatFieldCalibrating: boolean;
 }
 
 export function SettingsPanel({ 
@@ -20,8 +25,19 @@ export function SettingsPanel({
   onSettingsChange, 
   onCalibrate,
   calibrating,
-  calibrationComplete 
+  calibrationComplete,
+  onFlatFieldCalibrate,
+  onFlatFieldClear,
+  flatFieldActive,
+  flatFieldCalibrating
 }: SettingsPanelProps) {
+  // One capture at a time, both take over the camera
+  const capturing = calibrating || flatFieldCalibrating;
+
+  const handleAutoMaskToggle = (checked: boolean) => {
+    onSettingsChange({ ...settings, autoMaskHotSpots: checked });
+  };
+
   const handleSensitivityChange = (value: number[]) => {
     onSettingsChange({ ...settings, sensitivity: value[0] });
   };
@@ -30,14 +46,61 @@ export function SettingsPanel({
     onSettingsChange({ ...settings, smoothing: value[0] });
   };
 
+  const handleDenoiseFramesChange = (value: number[]) => {
+    onSettingsChange({ ...settings, denoiseFrames: value[0] });
+  };
+
+  // Keeps the pick-up threshold at or above the one a held beam is dropped at
+  const handleLockEnterChange = (value: number[]) => {
+    const enter = value[0];
+    onSettingsChange({ ...settings, lock: { ...settings.lock, enter, exit: Math.min(settings.lock.exit, enter) } });
+  };
+
+  const handleLockExitChange = (value: number[]) => {
+    const exit = value[0];
+    onSettingsChange({ ...settings, lock: { ...settings.lock, exit, enter: Math.max(settings.lock.enter, exit) } });
+  };
+
+  const handleLockHoldTimeChange = (value: number[]) => {
+    onSettingsChange({ ...settings, lock: { ...settings.lock, holdTime: value[0] } });
+  };
+
   const handleColorModeChange = (mode: ColorMode) => {
     onSettingsChange({ ...settings, colorMode: mode });
   };
 
+  const handleHueCenterChange = (value: number[]) => {
+    onSettingsChange({ ...settings, customHue: { ...settings.customHue, center: value[0] } });
+  };
+
+  const handleHueWidthChange = (value: number[]) => {
+    onSettingsChange({ ...settings, customHue: { ...settings.customHue, width: value[0] } });
+  };
+
+  const handleDetectionModeChange = (mode: DetectionMode) => {
+    onSettingsChange({ ...settings, detectionMode: mode });
+  };
+
+  const handleQualityChange = (quality: QualityPreset) => {
+    onSettingsChange({ ...settings, quality });
+  };
+
+  const handlePulseModeToggle = (checked: boolean) => {
+    onSettingsChange({ ...settings, pulseMode: checked });
+  };
+
+  const handleAdaptiveThresholdToggle = (checked: boolean) => {
+    onSettingsChange({ ...settings, adaptiveThreshold: checked });
+  };
+
   const handleFlickerFilterToggle = (checked: boolean) => {
     onSettingsChange({ ...settings, flickerFilter: checked });
   };
 
+  const handleStabilizationToggle = (checked: boolean) => {
+    onSettingsChange({ ...settings, stabilization: checked });
+  };
+
   const handleMirrorToggle = (checked: boolean) => {
     onSettingsChange({ ...settings, mirror: checked });
   };
@@ -74,12 +137,51 @@ export function SettingsPanel({
             </p>
             <Button 
               onClick={onCalibrate} 
-              disabled={calibrating}
+              disabled={capturing}
               variant="outline"
               className="w-full mt-2"
             >
               {calibrating ? 'Калібрування...' : calibrationComplete ? 'Перекалібрувати' : 'Калібрувати'}
             </Button>
+            <div className="flex items-center justify-between pt-2">
+              <Label className="text-sm text-muted-foreground">
+                Маскувати лампи та вікна
+              </Label>
+              <Switch
+                checked={settings.autoMaskHotSpots}
+                onCheckedChange={handleAutoMaskToggle}
+              />
+            </div>
+          </div>
+
+          {/* Flat Field */}
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2 text-foreground">
+              <Aperture className="w-4 h-4" />
+              Віньєтування
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Наведіть камеру на рівномірно освітлену білу поверхню, щоб вирівняти яскравість країв кадру
+            </p>
+            <div className="flex gap-2 mt-2">
+              <Button
+                onClick={onFlatFieldCalibrate}
+                disabled={capturing}
+                variant="outline"
+                className="flex-1"
+              >
+                {flatFieldCalibrating ? 'Запис...' : flatFieldActive ? 'Перезаписати' : 'Записати'}
+              </Button>
+              {flatFieldActive && (
+                <Button
+                  onClick={onFlatFieldClear}
+                  disabled={capturing}
+                  variant="outline"
+                >
+                  Скинути
+                </Button>
+              )}
+            </div>
           </div>
 
           {/* Sensitivity */}
@@ -104,7 +206,7 @@ export function SettingsPanel({
               <Palette className="w-4 h-4" />
               Режим кольору
             </Label>
-            <div className="flex gap-2">
+            <div className="flex flex-wrap gap-2">
               <Button
                 variant={settings.colorMode === 'auto' ? 'default' : 'secondary'}
                 size="sm"
@@ -129,7 +231,175 @@ export function SettingsPanel({
               >
                 🟢 Зелений
               </Button>
+              <Button
+                variant={settings.colorMode === 'blue' ? 'default' : 'secondary'}
+                size="sm"
+                onClick={() => handleColorModeChange('blue')}
+                className="flex-1"
+              >
+                🔵 Синій
+              </Button>
+              <Button
+                variant={settings.colorMode === 'custom' ? 'default' : 'secondary'}
+                size="sm"
+                onClick={() => handleColorModeChange('custom')}
+                className="flex-1"
+              >
+                Свій
+              </Button>
+              {settings.colorProfile && (
+                <Button
+                  variant={settings.colorMode === 'learned' ? 'default' : 'secondary'}
+                  size="sm"
+                  onClick={() => handleColorModeChange('learned')}
+                  className="flex-1"
+                >
+                  <span
+                    className="w-3 h-3 mr-1 rounded-full"
+                    style={{ backgroundColor: `hsl(${settings.colorProfile.hue.center} 100% 55%)` }}
+                  />
+                  Навчений
+                </Button>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Щоб навчити колір, натисніть піпетку та торкніться променя
+            </p>
+
+            {settings.colorMode === 'custom' && (
+              <div className="space-y-3 pt-2">
+                <Label className="flex items-center gap-2 text-foreground">
+                  <span
+                    className="w-4 h-4 rounded-full"
+                    style={{ backgroundColor: `hsl(${settings.customHue.center} 100% 55%)` }}
+                  />
+                  Відтінок: {settings.customHue.center}°
+                </Label>
+                <Slider
+                  value={[settings.customHue.center]}
+                  onValueChange={handleHueCenterChange}
+                  min={0}
+                  max={359}
+                  step={1}
+                  className="w-full"
+                />
+                <Label className="text-foreground">
+                  Ширина вікна: {settings.customHue.width}°
+                </Label>
+                <Slider
+                  value={[settings.customHue.width]}
+                  onValueChange={handleHueWidthChange}
+                  min={10}
+                  max={120}
+                  step={5}
+                  className="w-full"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Detection Mode */}
+          <div className="space-y-3">
+            <Label className="flex items-center gap-2 text-foreground">
+              <ScanLine className="w-4 h-4" />
+              Режим виявлення
+            </Label>
+            <div className="flex gap-2">
+              <Button
+                variant={settings.detectionMode === 'spot' ? 'default' : 'secondary'}
+                size="sm"
+                onClick={() => handleDetectionModeChange('spot')}
+                className="flex-1"
+              >
+                Точка
+              </Button>
+              <Button
+                variant={settings.detectionMode === 'line' ? 'default' : 'secondary'}
+                size="sm"
+                onClick={() => handleDetectionModeChange('line')}
+                className="flex-1"
+              >
+                Лінія
+              </Button>
+              <Button
+                variant={settings.detectionMode === 'cross' ? 'default' : 'secondary'}
+                size="sm"
+                onClick={() => handleDetectionModeChange('cross')}
+                className="flex-1"
+              >
+                Хрест
+              </Button>
+            </div>
+          </div>
+
+          {/* Quality */}
+          <div className="space-y-3">
+            <Label className="flex items-center gap-2 text-foreground">
+              <BatteryMedium className="w-4 h-4" />
+              Якість обробки
+            </Label>
+            <div className="flex gap-2">
+              <Button
+                variant={settings.quality === 'battery' ? 'default' : 'secondary'}
+                size="sm"
+                onClick={() => handleQualityChange('battery')}
+                className="flex-1"
+              >
+                Економія
+              </Button>
+              <Button
+                variant={settings.quality === 'balanced' ? 'default' : 'secondary'}
+                size="sm"
+                onClick={() => handleQualityChange('balanced')}
+                className="flex-1"
+              >
+                Баланс
+              </Button>
+              <Button
+                variant={settings.quality === 'precision' ? 'default' : 'secondary'}
+                size="sm"
+                onClick={() => handleQualityChange('precision')}
+                className="flex-1"
+              >
+                Точність
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Роздільність аналізу підлаштовується під швидкодію телефона
+            </p>
+          </div>
+
+          {/* Pulse Mode */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="flex items-center gap-2 text-foreground">
+                <Activity className="w-4 h-4" />
+                Імпульсний режим
+              </Label>
+              <Switch
+                checked={settings.pulseMode}
+                onCheckedChange={handlePulseModeToggle}
+              />
             </div>
+            <p className="text-sm text-muted-foreground">
+              Для рівнів у режимі імпульсу на вулиці. Тримайте камеру нерухомо
+            </p>
+          </div>
+
+          {/* Temporal Denoise */}
+          <div className="space-y-3">
+            <Label className="flex items-center gap-2 text-foreground">
+              <Layers className="w-4 h-4" />
+              Шумозаглушення: {settings.denoiseFrames > 1 ? `${settings.denoiseFrames} ${settings.denoiseFrames < 5 ? 'кадри' : 'кадрів'}` : 'вимк'}
+            </Label>
+            <Slider
+              value={[settings.denoiseFrames]}
+              onValueChange={handleDenoiseFramesChange}
+              min={1}
+              max={8}
+              step={1}
+              className="w-full"
+            />
           </div>
 
           {/* Smoothing */}
@@ -148,6 +418,73 @@ export function SettingsPanel({
             />
           </div>
 
+          {/* Lock Hysteresis */}
+          <div className="space-y-3">
+            <Label className="flex items-center gap-2 text-foreground">
+              <Lock className="w-4 h-4" />
+              Стабільність статусу
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              Слабкий промінь біля межі дальності не перемикає статус щокадру
+            </p>
+            <div className="space-y-2 pl-6">
+              <Label className="text-sm text-muted-foreground">
+                Поріг захоплення: {settings.lock.enter}%
+              </Label>
+              <Slider
+                value={[settings.lock.enter]}
+                onValueChange={handleLockEnterChange}
+                min={0}
+                max={100}
+                step={1}
+                className="w-full"
+              />
+            </div>
+            <div className="space-y-2 pl-6">
+              <Label className="text-sm text-muted-foreground">
+                Поріг втрати: {settings.lock.exit}%
+              </Label>
+              <Slider
+                value={[settings.lock.exit]}
+                onValueChange={handleLockExitChange}
+                min={0}
+                max={100}
+                step={1}
+                className="w-full"
+              />
+            </div>
+            <div className="space-y-2 pl-6">
+              <Label className="text-sm text-muted-foreground">
+                Затримка: {settings.lock.holdTime} мс
+              </Label>
+              <Slider
+                value={[settings.lock.holdTime]}
+                onValueChange={handleLockHoldTimeChange}
+                min={0}
+                max={1000}
+                step={50}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          {/* Adaptive Threshold */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="flex items-center gap-2 text-foreground">
+                <Grid3x3 className="w-4 h-4" />
+                Адаптивний поріг
+              </Label>
+              <Switch
+                checked={settings.adaptiveThreshold}
+                onCheckedChange={handleAdaptiveThresholdToggle}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Порівнює промінь з яскравістю навколо, а не з одним порогом на весь кадр
+            </p>
+          </div>
+
           {/* Flicker Filter */}
           <div className="flex items-center justify-between">
             <Label className="flex items-center gap-2 text-foreground">
@@ -160,6 +497,18 @@ export function SettingsPanel({
             />
           </div>
 
+          {/* Stabilization */}
+          <div className="flex items-center justify-between">
+            <Label className="flex items-center gap-2 text-foreground">
+              <Move className="w-4 h-4" />
+              Стабілізація
+            </Label>
+            <Switch
+              checked={settings.stabilization}
+              onCheckedChange={handleStabilizationToggle}
+            />
+          </div>
+
           {/* Mirror */}
           <div className="flex items-center justify-between">
             <Label className="flex items-center gap-2 text-foreground">
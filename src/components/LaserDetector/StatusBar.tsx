@@ -1,53 +1,151 @@
 import React from 'react';
-import { Crosshair, XCircle } from 'lucide-react';
-import { DetectionResult } from '@/hooks/useLaserDetector';
+import { Crosshair, Move, Search, XCircle } from 'lucide-react';
+import { DetectionDiagnostics, DetectionReason, DetectionResult } from '@/hooks/useLaserDetector';
+import { LaserColor } from '@/lib/laser/color';
+
+const COLOR_NAMES: Record<LaserColor, string> = {
+  red: 'червоний',
+  green: 'зелений',
+  blue: 'синій',
+  custom: 'свій колір',
+  learned: 'навчений',
+};
+
+const REASON_HINTS: Record<Exclude<DetectionReason, 'found'>, string> = {
+  'no-candidates': 'Немає яскравих точок потрібного кольору, перевірте режим кольору',
+  'too-dim': 'Промінь надто тьмяний, підвищте чутливість',
+  'no-halo': 'Немає ореолу навколо точки, підійдіть ближче',
+  'glint': 'Схоже на відблиск, а не на промінь',
+  'too-short': 'Лінія надто коротка, захопіть більшу її частину',
+  'settling': 'Промінь щойно з\'явився, перевіряємо, чи він стабільний',
+  'flickering': 'Джерело мерехтить, схоже на лампу, а не лазер',
+  'below-lock': 'Промінь видно, але він слабший за поріг захоплення',
+};
+
+// The numbers behind the reason, as measured against required
+function reasonDetails(diagnostics: DetectionDiagnostics): string | null {
+  switch (diagnostics.reason) {
+    case 'too-dim':
+      return `${Math.round(diagnostics.bestScore)}/${Math.round(diagnostics.minScore)}`;
+    case 'no-halo':
+      return diagnostics.bloomRatio !== null && diagnostics.minBloomRatio !== null
+        ? `${Math.round(diagnostics.bloomRatio * 100)}%/${Math.round(diagnostics.minBloomRatio * 100)}%`
+        : null;
+    default:
+      return null;
+  }
+}
 
 interface StatusBarProps {
   detection: DetectionResult;
   fps: number;
+  processingScale: number;
   calibrating: boolean;
+  flatFieldCalibrating: boolean;
 }
 
-export function StatusBar({ detection, fps, calibrating }: StatusBarProps) {
-  if (calibrating) {
+export function StatusBar({ detection, fps, processingScale, calibrating, flatFieldCalibrating }: StatusBarProps) {
+  if (calibrating || flatFieldCalibrating) {
     return (
       <div className="flex items-center justify-between px-4 py-3 bg-card/90 backdrop-blur-sm border-b border-border">
         <div className="status-indicator bg-status-warning/20 text-status-warning border border-status-warning/50">
           <div className="w-2 h-2 rounded-full bg-status-warning animate-pulse" />
-          <span>Калібрування...</span>
+          <span>{calibrating ? 'Калібрування...' : 'Запис віньєтування...'}</span>
         </div>
         <div className="fps-badge">{fps} FPS</div>
       </div>
     );
   }
 
+  const hint = detection.status !== 'found' && detection.diagnostics.reason !== 'found'
+    ? detection.diagnostics
+    : null;
+  const details = hint && reasonDetails(hint);
+
   return (
-    <div className="flex items-center justify-between px-4 py-3 bg-card/90 backdrop-blur-sm border-b border-border">
-      {detection.found ? (
-        <div className="status-indicator status-found">
-          <Crosshair className="w-4 h-4" />
-          <span>Промінь знайдено</span>
-          {detection.detectedColor && (
-            <span className="ml-1 text-xs opacity-75">
-              ({detection.detectedColor === 'red' ? 'червоний' : 'зелений'})
-            </span>
+    <div>
+      <div className="flex items-center justify-between px-4 py-3 bg-card/90 backdrop-blur-sm border-b border-border">
+        {detection.status === 'found' && (
+          <div className="status-indicator status-found">
+            <Crosshair className="w-4 h-4" />
+            <span>Промінь знайдено</span>
+            {detection.detectedColor && (
+              <span className="ml-1 text-xs opacity-75">
+                ({COLOR_NAMES[detection.detectedColor]})
+              </span>
+            )}
+            {detection.predicted && (
+              <span className="ml-1 text-xs opacity-75">прогноз</span>
+            )}
+          </div>
+        )}
+        {detection.status === 'searching' && (
+          <div className="status-indicator bg-status-warning/20 text-status-warning border border-status-warning/50">
+            <Search className="w-4 h-4" />
+            <span>Пошук променя...</span>
+          </div>
+        )}
+        {detection.status === 'lost' && (
+          <div className="status-indicator status-not-found">
+            <XCircle className="w-4 h-4" />
+            <span>Промінь не знайдено</span>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          {detection.found && detection.beams.length > 1 && (
+            <div className="text-xs text-muted-foreground font-mono">
+              {detection.primaryBeam + 1}/{detection.beams.length}
+            </div>
           )}
+          {detection.found && detection.line && (
+            <div className="text-xs text-muted-foreground font-mono">
+              {detection.line.angle.toFixed(1)}° · {detection.line.offset.toFixed(0)}px
+            </div>
+          )}
+          {detection.found && detection.cross && (
+            <div className="text-xs text-muted-foreground font-mono">
+              H {detection.cross.horizontal.angle.toFixed(1)}° · V {detection.cross.vertical.angle.toFixed(1)}° · ∠{detection.cross.angleBetween.toFixed(1)}°
+            </div>
+          )}
+          {detection.found && (
+            <div className="text-xs text-muted-foreground font-mono">
+              {Math.round(detection.intensity)}
+            </div>
+          )}
+          {detection.found && detection.precision !== null && (
+            <div className="text-xs text-muted-foreground font-mono">
+              ±{detection.precision.toFixed(2)}px
+            </div>
+          )}
+          {detection.motion && (
+            <div
+              className={`flex items-center gap-1 text-xs font-mono ${detection.motion.textured ? 'text-muted-foreground' : 'text-status-warning'}`}
+              title={detection.motion.textured ? 'Компенсований зсув камери' : 'Замало деталей у кадрі для стабілізації'}
+            >
+              <Move className="w-3 h-3" />
+              {Math.round(Math.hypot(detection.motion.x, detection.motion.y))}px
+            </div>
+          )}
+          {detection.found && detection.wall && (
+            <div className="text-xs text-muted-foreground font-mono" title="Положення променя відносно стіни">
+              {Math.round(detection.wall.x)}, {Math.round(detection.wall.y)}
+            </div>
+          )}
+          {processingScale < 1 && (
+            <div className="text-xs text-muted-foreground font-mono">
+              {Math.round(processingScale * 100)}%
+            </div>
+          )}
+          <div className="fps-badge">{fps} FPS</div>
         </div>
-      ) : (
-        <div className="status-indicator status-not-found">
-          <XCircle className="w-4 h-4" />
-          <span>Промінь не знайдено</span>
+      </div>
+      {hint && (
+        <div className="flex items-center justify-between gap-3 px-4 py-1.5 bg-card/90 backdrop-blur-sm border-b border-border text-xs text-muted-foreground">
+          <span>{REASON_HINTS[hint.reason]}</span>
+          {details && <span className="font-mono">{details}</span>}
         </div>
       )}
-
-      <div className="flex items-center gap-3">
-        {detection.found && (
-          <div className="text-xs text-muted-foreground font-mono">
-            {Math.round(detection.intensity)}
-          </div>
-        )}
-        <div className="fps-badge">{fps} FPS</div>
-      </div>
     </div>
   );
 }
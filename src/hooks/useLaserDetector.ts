@@ -1,23 +1,65 @@
 import { useRef, useState, useCallback, useEffect } from 'react';
-
-export type ColorMode = 'red' | 'green' | 'auto';
-
-export interface DetectorSettings {
-  sensitivity: number; // 0-100
-  colorMode: ColorMode;
-  smoothing: number; // 0-10
-  flickerFilter: boolean;
-  mirror: boolean;
-  rotation: number; // 0, 90, 180, 270
-}
-
-export interface DetectionResult {
-  found: boolean;
-  x: number;
-  y: number;
-  intensity: number;
-  detectedColor: 'red' | 'green' | null;
-}
+import {
+  accumulateBackground,
+  createBackgroundAccumulator,
+  finishBackground,
+  BackgroundAccumulator,
+  BackgroundModel,
+} from '@/lib/laser/background';
+import {
+  applyCameraControls,
+  loadCameraControls,
+  readCapabilities,
+  saveCameraControls,
+  withCurrentValues,
+  CameraCapabilities,
+  CameraControls,
+  DEFAULT_CAMERA_CONTROLS,
+} from '@/lib/laser/cameraControls';
+import { learnColorProfile, ColorProfile } from '@/lib/laser/color';
+import {
+  pickPrimaryBeam,
+  scaleDetection,
+  Beam,
+  DetectionResult,
+  DetectorSettings,
+  NO_DETECTION,
+} from '@/lib/laser/detector';
+import { maskHotSpots } from '@/lib/laser/exclusionMask';
+import {
+  accumulateFlatField,
+  createFlatFieldAccumulator,
+  finishFlatField,
+  loadFlatField,
+  saveFlatField,
+  FlatField,
+  FlatFieldAccumulator,
+} from '@/lib/laser/flatField';
+import { createLockState, updateLock } from '@/lib/laser/lockState';
+import {
+  applyFlatField,
+  createFrameProcessor,
+  drawFrame,
+  processImage,
+  FrameInfo,
+  WorkerRequest,
+  WorkerResponse,
+} from '@/lib/laser/frameProcessor';
+import { createFrameReader, readFrame, FrameReader } from '@/lib/laser/frameReader';
+import { createQualityState, updateQuality, QUALITY_PRESETS } from '@/lib/laser/qualityController';
+import { loadStored, saveStored } from '@/lib/laser/storage';
+import { createTracker, resetTracker, updateTracker } from '@/lib/laser/tracker';
+
+export type {
+  Beam,
+  ColorMode,
+  DetectionDiagnostics,
+  DetectionMode,
+  DetectionReason,
+  DetectionResult,
+  DetectorSettings,
+  RegionOfInterest,
+} from '@/lib/laser/detector';
 
 interface LaserDetectorState {
   cameraActive: boolean;
@@ -26,185 +68,134 @@ interface LaserDetectorState {
   error: string | null;
   calibrating: boolean;
   calibrationComplete: boolean;
+  flatFieldActive: boolean; // a vignetting correction is applied to frames
+  flatFieldCalibrating: boolean;
+  cameraCapabilities: CameraCapabilities | null;
+  cameraControls: CameraControls;
+  processingScale: number; // analysis resolution, fraction of the video size
 }
 
 const DEFAULT_SETTINGS: DetectorSettings = {
   sensitivity: 50,
   colorMode: 'auto',
+  customHue: { center: 270, width: 40 },
+  colorProfile: null,
+  detectionMode: 'spot',
+  pulseMode: false,
+  adaptiveThreshold: true,
+  roi: null,
+  exclusionMask: null,
+  autoMaskHotSpots: false,
+  quality: 'balanced',
+  denoiseFrames: 1,
   smoothing: 3,
+  lock: { enter: 10, exit: 0, holdTime: 300 },
   flickerFilter: true,
+  stabilization: false,
   mirror: false,
   rotation: 0,
 };
 
-// Pure function - no hooks needed
-function detectLaser(
-  imageData: ImageData,
-  settings: DetectorSettings
-): DetectionResult {
-  const data = imageData.data;
-  const width = imageData.width;
-  const height = imageData.height;
-
-  const step = 2;
-  const sensitivityFactor = settings.sensitivity / 100;
-  const saturationThreshold = 250 - (sensitivityFactor * 50);
-  const bloomThreshold = 200 - (sensitivityFactor * 80);
-  
-  let maxScore = 0;
-  let maxX = 0;
-  let maxY = 0;
-  let detectedColor: 'red' | 'green' | null = null;
-  let foundBeam = false;
-
-  const candidates: Array<{x: number; y: number; r: number; g: number; b: number; score: number}> = [];
-  
-  for (let y = 0; y < height; y += step) {
-    for (let x = 0; x < width; x += step) {
-      const i = (y * width + x) * 4;
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      const brightness = (r + g + b) / 3;
-      
-      if (brightness < bloomThreshold) continue;
-      
-      let isLaserCandidate = false;
-      let score = 0;
-      let color: 'red' | 'green' | null = null;
-      
-      if (settings.colorMode === 'green' || settings.colorMode === 'auto') {
-        const greenDominance = g - Math.max(r, b);
-        const isSaturatedGreen = g >= saturationThreshold && (greenDominance > 20 || (g > 250 && r > 200 && b > 150));
-        const isGreenBloom = g > bloomThreshold && g > r * 0.9 && g > b * 1.1;
-        
-        if (isSaturatedGreen || isGreenBloom) {
-          isLaserCandidate = true;
-          score = g + (greenDominance > 0 ? greenDominance * 2 : 0) + (brightness > 250 ? 100 : 0);
-          color = 'green';
-        }
-      }
-      
-      if (settings.colorMode === 'red' || settings.colorMode === 'auto') {
-        const redDominance = r - Math.max(g, b);
-        const isSaturatedRed = r >= saturationThreshold && (redDominance > 20 || (r > 250 && g > 150 && b > 100));
-        const isRedBloom = r > bloomThreshold && r > g * 1.2 && r > b * 1.3;
-        
-        if (isSaturatedRed || isRedBloom) {
-          const redScore = r + (redDominance > 0 ? redDominance * 2 : 0) + (brightness > 250 ? 100 : 0);
-          if (redScore > score) {
-            isLaserCandidate = true;
-            score = redScore;
-            color = 'red';
-          }
-        }
-      }
-      
-      if (isLaserCandidate && score > 0) {
-        candidates.push({ x, y, r, g, b, score });
-      }
-    }
-  }
-  
-  if (candidates.length === 0) {
-    return { found: false, x: 0, y: 0, intensity: 0, detectedColor: null };
-  }
-  
-  candidates.sort((a, b) => b.score - a.score);
-  const topCandidate = candidates[0];
-  
-  const bloomRadius = 15;
-  let bloomPixels = 0;
-  let totalChecked = 0;
-  
-  for (let dy = -bloomRadius; dy <= bloomRadius; dy += 3) {
-    for (let dx = -bloomRadius; dx <= bloomRadius; dx += 3) {
-      const nx = topCandidate.x + dx;
-      const ny = topCandidate.y + dy;
-      
-      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
-      
-      const ni = (ny * width + nx) * 4;
-      const brightness = (data[ni] + data[ni + 1] + data[ni + 2]) / 3;
-      
-      totalChecked++;
-      if (brightness > bloomThreshold * 0.7) {
-        bloomPixels++;
-      }
-    }
-  }
-  
-  const bloomRatio = totalChecked > 0 ? bloomPixels / totalChecked : 0;
-  const hasBloom = bloomRatio > 0.15 - (sensitivityFactor * 0.1);
-  const minScore = 200 - (sensitivityFactor * 100);
-  
-  if (topCandidate.score > minScore && hasBloom) {
-    foundBeam = true;
-    maxX = topCandidate.x;
-    maxY = topCandidate.y;
-    maxScore = topCandidate.score;
-    
-    if (topCandidate.g > topCandidate.r) {
-      detectedColor = 'green';
-    } else {
-      detectedColor = 'red';
-    }
-    
-    let sumX = 0, sumY = 0, sumWeight = 0;
-    const refineRadius = 10;
-    
-    for (let dy = -refineRadius; dy <= refineRadius; dy++) {
-      for (let dx = -refineRadius; dx <= refineRadius; dx++) {
-        const nx = topCandidate.x + dx;
-        const ny = topCandidate.y + dy;
-        
-        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
-        
-        const ni = (ny * width + nx) * 4;
-        const brightness = (data[ni] + data[ni + 1] + data[ni + 2]) / 3;
-        
-        if (brightness > saturationThreshold) {
-          const weight = brightness;
-          sumX += nx * weight;
-          sumY += ny * weight;
-          sumWeight += weight;
-        }
-      }
-    }
-    
-    if (sumWeight > 0) {
-      maxX = Math.round(sumX / sumWeight);
-      maxY = Math.round(sumY / sumWeight);
-    }
-  }
+const COLOR_PROFILE_KEY = 'laser-color-profile';
 
-  return {
-    found: foundBeam,
-    x: maxX,
-    y: maxY,
-    intensity: Math.min(100, Math.round(maxScore / 4)),
-    detectedColor: foundBeam ? detectedColor : null,
-  };
+// The worker needs a canvas of its own; without one frames stay on the main thread
+function supportsDetectorWorker() {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap === 'function';
+}
+
+function postToWorker(worker: Worker, message: WorkerRequest, transfer: Transferable[] = []) {
+  worker.postMessage(message, transfer);
+}
+
+// Adds a measurement to a rolling history of 30 and returns their mean
+function averageRate(history: number[], rate: number) {
+  history.push(rate);
+  if (history.length > 30) history.shift();
+  return history.reduce((a, b) => a + b, 0) / history.length;
+}
+
+// Sizes the canvas to the video, scaled by `scale`, and draws the current frame into it
+function captureFrame(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  reader: FrameReader,
+  mirror: boolean,
+  scale = 1
+) {
+  const ctx = canvas.getContext('2d', { willReadFrequently: !reader.gl });
+  if (!ctx) return null;
+
+  const width = Math.round(video.videoWidth * scale);
+  const height = Math.round(video.videoHeight * scale);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  drawFrame(ctx, video, mirror);
+  return readFrame(reader, canvas, ctx);
 }
 
 export function useLaserDetector() {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Camera frames and analyzed frames per second, the last 30 measurements of each
   const fpsHistoryRef = useRef<number[]>([]);
-  const positionHistoryRef = useRef<{ x: number; y: number }[]>([]);
-  const calibrationDataRef = useRef<{ avgBrightness: number; threshold: number } | null>(null);
-
-  const [settings, setSettings] = useState<DetectorSettings>(DEFAULT_SETTINGS);
+  const analyzedFpsHistoryRef = useRef<number[]>([]);
+  const trackerRef = useRef(createTracker());
+  const lockRef = useRef(createLockState());
+  const selectedBeamRef = useRef<{ x: number; y: number } | null>(null);
+  // Pipeline state for frames processed on the main thread, also the hook's
+  // copy of the background model and flat field for workers started later
+  const processorRef = useRef(createFrameProcessor());
+  // Created once, it holds a WebGL context
+  const [frameReader] = useState(createFrameReader);
+  const workerRef = useRef<Worker | null>(null);
+  const workerBusyRef = useRef(false);
+  const qualityRef = useRef(createQualityState(DEFAULT_SETTINGS.quality));
+
+  const [settings, setSettings] = useState<DetectorSettings>(() => {
+    const colorProfile = loadStored<ColorProfile | null>(COLOR_PROFILE_KEY, null);
+    return colorProfile
+      ? { ...DEFAULT_SETTINGS, colorMode: 'learned', colorProfile }
+      : DEFAULT_SETTINGS;
+  });
   const [state, setState] = useState<LaserDetectorState>({
     cameraActive: false,
     fps: 0,
-    detection: { found: false, x: 0, y: 0, intensity: 0, detectedColor: null },
+    detection: NO_DETECTION,
     error: null,
     calibrating: false,
     calibrationComplete: false,
+    flatFieldActive: false,
+    flatFieldCalibrating: false,
+    cameraCapabilities: null,
+    cameraControls: DEFAULT_CAMERA_CONTROLS,
+    processingScale: 1,
   });
 
+  const setBackground = useCallback((background: BackgroundModel | null) => {
+    processorRef.current.background = background;
+    if (workerRef.current) {
+      postToWorker(workerRef.current, { type: 'background', background });
+    }
+  }, []);
+
+  const setFlatField = useCallback((flatField: FlatField | null) => {
+    processorRef.current.flatField = flatField;
+    if (workerRef.current) {
+      postToWorker(workerRef.current, { type: 'flatField', flatField });
+    }
+    // A background captured under the old correction no longer matches the frames
+    if (processorRef.current.background) {
+      setBackground(null);
+      setState(s => ({ ...s, calibrationComplete: false }));
+    }
+    setState(s => ({ ...s, flatFieldActive: flatField !== null }));
+  }, [setBackground]);
+
   const startCamera = useCallback(async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
@@ -220,12 +211,42 @@ export function useLaserDetector() {
         videoRef.current.srcObject = stream;
         streamRef.current = stream;
         await videoRef.current.play();
-        setState(s => ({ ...s, cameraActive: true, error: null }));
+
+        const track = stream.getVideoTracks()[0];
+        const cameraCapabilities = readCapabilities(track);
+        const cameraControls = withCurrentValues(track, loadCameraControls(track));
+        try {
+          await applyCameraControls(track, cameraCapabilities, cameraControls);
+        } catch {
+          // A stored setting this camera rejects should not keep it from starting
+        }
+        setFlatField(loadFlatField(track));
+
+        setState(s => ({ ...s, cameraActive: true, error: null, cameraCapabilities, cameraControls }));
       }
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Не вдалося отримати доступ до камери';
       setState(s => ({ ...s, error: message }));
     }
+  }, [setFlatField]);
+
+  // Applies exposure, focus, white balance and torch settings and remembers
+  // them for this camera. Resolves to false when the camera rejects them.
+  const updateCameraControls = useCallback(async (controls: CameraControls) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return false;
+
+    const next = withCurrentValues(track, controls);
+    try {
+      const rejected = await applyCameraControls(track, readCapabilities(track), next);
+      if (rejected.length > 0) return false;
+    } catch {
+      return false;
+    }
+
+    saveCameraControls(track, next);
+    setState(s => ({ ...s, cameraControls: next }));
+    return true;
   }, []);
 
   const stopCamera = useCallback(() => {
@@ -233,145 +254,317 @@ export function useLaserDetector() {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
-    setState(s => ({ ...s, cameraActive: false }));
+    setState(s => ({ ...s, cameraActive: false, cameraCapabilities: null }));
   }, []);
 
   const startCalibration = useCallback(() => {
     setState(s => ({ ...s, calibrating: true, calibrationComplete: false }));
-    calibrationDataRef.current = null;
+    setBackground(null);
 
-    let frames: number[] = [];
+    let accumulator: BackgroundAccumulator | null = null;
     const startTime = Date.now();
 
     const collectFrame = () => {
-      if (!canvasRef.current || !videoRef.current) return;
-
-      const ctx = canvasRef.current.getContext('2d', { willReadFrequently: true });
-      if (!ctx) return;
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!canvas || !video) return;
 
-      ctx.drawImage(videoRef.current, 0, 0);
-      const imageData = ctx.getImageData(0, 0, canvasRef.current.width, canvasRef.current.height);
-      const data = imageData.data;
+      // Drawn and corrected exactly like processed frames so the model lines up with them
+      const imageData = captureFrame(video, canvas, frameReader, settings.mirror);
+      if (!imageData) return;
+      applyFlatField(processorRef.current, imageData, settings.mirror);
 
-      let totalBrightness = 0;
-      for (let i = 0; i < data.length; i += 4) {
-        totalBrightness += (data[i] + data[i + 1] + data[i + 2]) / 3;
+      if (!accumulator) {
+        accumulator = createBackgroundAccumulator(canvas.width, canvas.height);
       }
-      const avgBrightness = totalBrightness / (data.length / 4);
-      frames.push(avgBrightness);
+      accumulateBackground(accumulator, imageData);
 
       if (Date.now() - startTime < 2000) {
         requestAnimationFrame(collectFrame);
       } else {
-        const avg = frames.reduce((a, b) => a + b, 0) / frames.length;
-        calibrationDataRef.current = {
-          avgBrightness: avg,
-          threshold: avg + 50 + (100 - settings.sensitivity),
-        };
+        const background = finishBackground(accumulator);
+        setBackground(background);
+        if (background && settings.autoMaskHotSpots) {
+          setSettings(s => ({ ...s, exclusionMask: maskHotSpots(s.exclusionMask, background) }));
+        }
         setState(s => ({ ...s, calibrating: false, calibrationComplete: true }));
       }
     };
 
     collectFrame();
-  }, [settings.sensitivity]);
+  }, [settings.mirror, settings.autoMaskHotSpots, frameReader, setBackground]);
 
-  // Smoothing helper
-  const smoothPosition = useCallback((x: number, y: number, smoothing: number) => {
-    positionHistoryRef.current.push({ x, y });
-    if (positionHistoryRef.current.length > smoothing + 1) {
-      positionHistoryRef.current.shift();
-    }
+  // Records the lens vignetting while the camera looks at an evenly lit
+  // white surface and keeps it for this camera
+  const startFlatFieldCalibration = useCallback(() => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    setState(s => ({ ...s, flatFieldCalibrating: true }));
 
-    if (positionHistoryRef.current.length === 0) return { x, y };
+    let accumulator: FlatFieldAccumulator | null = null;
+    const startTime = Date.now();
+
+    const collectFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!canvas || !video) return;
+
+      // Measured on uncorrected frames, the old correction is replaced
+      const imageData = captureFrame(video, canvas, frameReader, settings.mirror);
+      if (!imageData) return;
+
+      if (!accumulator) {
+        accumulator = createFlatFieldAccumulator(canvas.width, canvas.height);
+      }
+      accumulateFlatField(accumulator, imageData);
 
-    const avgX = positionHistoryRef.current.reduce((sum, p) => sum + p.x, 0) / positionHistoryRef.current.length;
-    const avgY = positionHistoryRef.current.reduce((sum, p) => sum + p.y, 0) / positionHistoryRef.current.length;
+      if (Date.now() - startTime < 1000) {
+        requestAnimationFrame(collectFrame);
+      } else {
+        // A failed capture leaves the previous correction in place
+        const flatField = finishFlatField(accumulator, settings.mirror);
+        if (flatField) {
+          saveFlatField(track, flatField);
+          setFlatField(flatField);
+        }
+        setState(s => ({ ...s, flatFieldCalibrating: false }));
+      }
+    };
 
-    return { x: avgX, y: avgY };
+    collectFrame();
+  }, [settings.mirror, frameReader, setFlatField]);
+
+  const clearFlatField = useCallback(() => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (track) saveFlatField(track, null);
+    setFlatField(null);
+  }, [setFlatField]);
+
+  // Learns the beam color from the current frame around (x, y), in video
+  // pixels, and makes it the active color mode
+  const sampleColor = useCallback((x: number, y: number) => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || video.videoWidth === 0) return false;
+
+    // The worker keeps its frames, so grab a fresh one here
+    const imageData = captureFrame(video, canvas, frameReader, settings.mirror);
+    if (!imageData) return false;
+    applyFlatField(processorRef.current, imageData, settings.mirror);
+
+    const colorProfile = learnColorProfile(imageData, x, y);
+    if (!colorProfile) return false;
+
+    saveStored(COLOR_PROFILE_KEY, colorProfile);
+    setSettings(s => ({ ...s, colorMode: 'learned', colorProfile }));
+    return true;
+  }, [settings.mirror, frameReader]);
+
+  // Pins the main readout to a beam; null goes back to the strongest one
+  const selectBeam = useCallback((beam: Beam | null) => {
+    selectedBeamRef.current = beam ? { x: beam.x, y: beam.y } : null;
+    resetTracker(trackerRef.current);
   }, []);
 
+  // One detector worker per camera session, when the browser can host it
+  useEffect(() => {
+    if (!state.cameraActive || !supportsDetectorWorker()) return;
+
+    const worker = new Worker(new URL('../lib/laser/detectorWorker.ts', import.meta.url), { type: 'module' });
+    postToWorker(worker, { type: 'background', background: processorRef.current.background });
+    postToWorker(worker, { type: 'flatField', flatField: processorRef.current.flatField });
+
+    const release = () => {
+      worker.terminate();
+      if (workerRef.current === worker) {
+        workerRef.current = null;
+        workerBusyRef.current = false;
+      }
+    };
+
+    // A worker that fails to start or crashes hands the frames back to the main thread
+    worker.onerror = release;
+    workerRef.current = worker;
+    return release;
+  }, [state.cameraActive]);
+
   // Frame processing effect
   useEffect(() => {
-    if (!state.cameraActive || state.calibrating) return;
+    if (!state.cameraActive || state.calibrating || state.flatFieldCalibrating) return;
 
     let frameId: number | null = null;
-    let lastTime = 0;
+    // Set while waiting on requestVideoFrameCallback rather than requestAnimationFrame
+    let frameVideo: HTMLVideoElement | null = null;
+    let lastCaptureTime = 0;
+    let lastFrameNumber = 0;
     let isActive = true;
+    let frameIndex = 0;
+    let animationFrames = 0;
+    // Last measured result, the base for predicted ones during a dropout
+    let lastFound: DetectionResult | null = null;
+    let lastFrameStart = 0;
+    let frameStart = 0;
+
+    if (qualityRef.current.preset !== settings.quality) {
+      qualityRef.current = createQualityState(settings.quality);
+    }
+    const quality = qualityRef.current;
 
-    const processFrame = () => {
-      if (!isActive) return;
-      
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      
-      if (!video || !canvas) {
-        frameId = requestAnimationFrame(processFrame);
-        return;
-      }
-
-      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    // Everything after detection is cheap and stays on the main thread
+    const handleDetection = (result: DetectionResult) => {
+      let detection = result;
 
-      if (!ctx || video.readyState !== video.HAVE_ENOUGH_DATA) {
-        frameId = requestAnimationFrame(processFrame);
-        return;
+      if (detection.beams.length > 0 && selectedBeamRef.current) {
+        detection = pickPrimaryBeam(detection, selectedBeamRef.current);
+        // Follow the picked beam as it moves
+        selectedBeamRef.current = { x: detection.x, y: detection.y };
       }
 
-      if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
+      if (detection.found) lastFound = detection;
+      // With stabilization on the beam is tracked on the wall, so hand shake
+      // does not read as beam motion
+      const origin = detection.motion ?? { x: 0, y: 0 };
+      const tracked = updateTracker(
+        trackerRef.current,
+        detection.found ? { x: detection.x - origin.x, y: detection.y - origin.y } : null,
+        detection.captureTime,
+        settings.smoothing
+      );
+      if (tracked && (detection.found || lastFound)) {
+        const base = detection.found
+          ? detection
+          : {
+            ...lastFound,
+            captureTime: detection.captureTime,
+            frameNumber: detection.frameNumber,
+            diagnostics: detection.diagnostics,
+            motion: detection.motion,
+          };
+        detection = {
+          ...base,
+          x: tracked.x + origin.x,
+          y: tracked.y + origin.y,
+          velocity: { x: tracked.vx, y: tracked.vy },
+          wall: detection.motion && { x: tracked.x, y: tracked.y },
+          predicted: tracked.predicted,
+        };
       }
 
-      ctx.save();
-      if (settings.mirror) {
-        ctx.translate(canvas.width, 0);
-        ctx.scale(-1, 1);
+      const status = updateLock(lockRef.current, detection, settings.lock, detection.captureTime);
+      // Seen, but too weak for the lock to take, so the status bar can say so
+      const belowLock = status !== 'found' && detection.found && !detection.predicted
+        && detection.confidence < (lockRef.current.locked ? settings.lock.exit : settings.lock.enter);
+      detection = {
+        ...detection,
+        status,
+        diagnostics: belowLock ? { ...detection.diagnostics, reason: 'below-lock' } : detection.diagnostics,
+      };
+
+      // Rates between the capture times of the analyzed frames, not the display
+      // refresh. The camera rate counts every frame the video presented in
+      // between, so skipped and capped frames do not lower it.
+      const now = performance.now();
+      const interval = detection.captureTime - lastCaptureTime;
+      const presented = detection.frameNumber - lastFrameNumber;
+      if (lastCaptureTime && interval > 0 && presented > 0) {
+        const cameraFps = averageRate(fpsHistoryRef.current, (1000 * presented) / interval);
+        const analyzedFps = averageRate(analyzedFpsHistoryRef.current, 1000 / interval);
+        updateQuality(quality, analyzedFps, cameraFps, now - frameStart, now);
+        setState(s => ({ ...s, fps: Math.round(cameraFps), detection, processingScale: quality.scale }));
+      } else {
+        setState(s => ({ ...s, detection }));
       }
-      ctx.drawImage(video, 0, 0);
-      ctx.restore();
+      lastCaptureTime = detection.captureTime;
+      lastFrameNumber = detection.frameNumber;
+    };
 
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      let detection = detectLaser(imageData, settings);
+    if (workerRef.current) {
+      postToWorker(workerRef.current, { type: 'settings', settings });
+      workerRef.current.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        workerBusyRef.current = false;
+        if (isActive) handleDetection(e.data.detection);
+      };
+    }
+
+    // Hands the frame to the worker as a bitmap; the pixels are only read there
+    const sendFrame = (worker: Worker, video: HTMLVideoElement, frame: FrameInfo) => {
+      // One frame in flight at a time, a slow worker skips frames instead of queueing them
+      if (workerBusyRef.current) return;
+      workerBusyRef.current = true;
+
+      frameStart = performance.now();
+      createImageBitmap(video)
+        .then(bitmap => {
+          if (workerRef.current !== worker) {
+            bitmap.close();
+            return;
+          }
+          postToWorker(worker, { type: 'frame', bitmap, frame, scale: quality.scale }, [bitmap]);
+        })
+        .catch(() => {
+          workerBusyRef.current = false;
+        });
+    };
 
-      if (detection.found && settings.smoothing > 0) {
-        const smoothed = smoothPosition(detection.x, detection.y, settings.smoothing);
-        detection = { ...detection, x: smoothed.x, y: smoothed.y };
-      } else if (!detection.found) {
-        positionHistoryRef.current = [];
+    const processFrame = (frame: FrameInfo) => {
+      if (!isActive) return;
+      scheduleFrame();
+
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || video.readyState !== video.HAVE_ENOUGH_DATA) return;
+
+      // Frames the quality controller or the preset's rate cap leave out
+      if (frameIndex++ % (quality.frameSkip + 1) !== 0) return;
+      const { maxFps } = QUALITY_PRESETS[quality.preset];
+      // A little slack keeps frame timing jitter from halving the rate
+      if (maxFps && frame.time - lastFrameStart < 1000 / maxFps - 4) return;
+      lastFrameStart = frame.time;
+
+      if (workerRef.current) {
+        sendFrame(workerRef.current, video, frame);
+        return;
       }
 
-      const now = performance.now();
-      if (lastTime) {
-        const fps = 1000 / (now - lastTime);
-        fpsHistoryRef.current.push(fps);
-        if (fpsHistoryRef.current.length > 30) {
-          fpsHistoryRef.current.shift();
-        }
-        const avgFps = Math.round(
-          fpsHistoryRef.current.reduce((a, b) => a + b, 0) / fpsHistoryRef.current.length
-        );
-        setState(s => ({ ...s, fps: avgFps, detection }));
+      frameStart = performance.now();
+      const imageData = captureFrame(video, canvas, frameReader, settings.mirror, quality.scale);
+      if (!imageData) return;
+      const detection = processImage(processorRef.current, imageData, settings, frame);
+      handleDetection(scaleDetection(detection, video.videoWidth / imageData.width));
+    };
+
+    // requestVideoFrameCallback fires once per new camera frame with its capture
+    // time; requestAnimationFrame runs at the display rate and can see the same
+    // frame twice, so it is only the fallback
+    const scheduleFrame = () => {
+      const video = videoRef.current;
+      if (video && 'requestVideoFrameCallback' in video) {
+        frameVideo = video;
+        frameId = video.requestVideoFrameCallback((now, metadata) => processFrame({
+          time: metadata.captureTime ?? metadata.presentationTime ?? now,
+          number: metadata.presentedFrames,
+        }));
       } else {
-        setState(s => ({ ...s, detection }));
+        frameVideo = null;
+        frameId = requestAnimationFrame(now => processFrame({ time: now, number: ++animationFrames }));
       }
-      lastTime = now;
-
-      frameId = requestAnimationFrame(processFrame);
     };
 
     const timeoutId = setTimeout(() => {
-      if (isActive) {
-        frameId = requestAnimationFrame(processFrame);
-      }
+      if (isActive) scheduleFrame();
     }, 100);
 
     return () => {
       isActive = false;
       clearTimeout(timeoutId);
-      if (frameId) {
+      if (frameId === null) return;
+      if (frameVideo) {
+        frameVideo.cancelVideoFrameCallback(frameId);
+      } else {
         cancelAnimationFrame(frameId);
       }
     };
-  }, [state.cameraActive, state.calibrating, settings, smoothPosition]);
+  }, [state.cameraActive, state.calibrating, state.flatFieldCalibrating, settings, frameReader]);
 
   useEffect(() => {
     return () => {
@@ -390,5 +583,10 @@ export function useLaserDetector() {
     startCamera,
     stopCamera,
     startCalibration,
+    startFlatFieldCalibration,
+    clearFlatField,
+    selectBeam,
+    sampleColor,
+    updateCameraControls,
   };
 }
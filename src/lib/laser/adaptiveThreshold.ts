@@ -0,0 +1,135 @@
+// Per-tile bloom and saturation thresholds, so a beam on a dim wall and one
+// next to a bright window are judged against their own surroundings.
+export interface ThresholdMap {
+  tileSize: number;
+  tilesX: number;
+  tilesY: number;
+  bloom: Float32Array;
+  saturation: Float32Array;
+  halo: Float32Array; // glow level around a beam, halfway from the tile median to its bloom threshold
+  background: Float32Array; // tile median
+  minBloom: number; // lowest bloom threshold anywhere, for a cheap first test
+}
+
+// All in the brightest channel, like the statistics they come from
+export interface LocalThresholds {
+  bloom: number;
+  saturation: number;
+  halo: number;
+  background: number;
+}
+
+const TILE_SIZE = 64;
+const SAMPLE_STEP = 4;
+// Scale from median absolute deviation to standard deviation for normal noise
+const MAD_TO_SIGMA = 1.4826;
+// A frame edge can leave a tile too few samples for its statistics to mean anything
+const MIN_TILE_SAMPLES = 16;
+
+// Median and robust spread from a 256-bin histogram. Both ignore the few
+// bright pixels a beam adds to its tile, unlike mean and standard deviation.
+function robustStats(histogram: Uint32Array, count: number): { median: number; sigma: number } {
+  const half = count / 2;
+  let median = 0;
+  for (let v = 0, seen = 0; v < 256; v++) {
+    seen += histogram[v];
+    if (seen >= half) {
+      median = v;
+      break;
+    }
+  }
+
+  const deviations = new Uint32Array(256);
+  for (let v = 0; v < 256; v++) {
+    deviations[Math.abs(v - median)] += histogram[v];
+  }
+  let mad = 0;
+  for (let d = 0, seen = 0; d < 256; d++) {
+    seen += deviations[d];
+    if (seen >= half) {
+      mad = d;
+      break;
+    }
+  }
+
+  return { median, sigma: mad * MAD_TO_SIGMA };
+}
+
+export function computeThresholdMap(
+  imageData: ImageData,
+  globalBloom: number,
+  globalSaturation: number,
+  sensitivityFactor: number
+): ThresholdMap {
+  const { data, width, height } = imageData;
+  const tilesX = Math.ceil(width / TILE_SIZE);
+  const tilesY = Math.ceil(height / TILE_SIZE);
+  const bloom = new Float32Array(tilesX * tilesY);
+  const saturation = new Float32Array(tilesX * tilesY);
+  const halo = new Float32Array(tilesX * tilesY);
+  const background = new Float32Array(tilesX * tilesY);
+
+  // How far above its surroundings a pixel has to be, in sigmas and in levels
+  const sigmas = 4 - sensitivityFactor * 2;
+  const minContrast = 80 - sensitivityFactor * 50;
+  const histogram = new Uint32Array(256);
+
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      histogram.fill(0);
+      let count = 0;
+
+      const maxY = Math.min(height, (ty + 1) * TILE_SIZE);
+      const maxX = Math.min(width, (tx + 1) * TILE_SIZE);
+      for (let y = ty * TILE_SIZE; y < maxY; y += SAMPLE_STEP) {
+        for (let x = tx * TILE_SIZE; x < maxX; x += SAMPLE_STEP) {
+          const i = (y * width + x) * 4;
+          histogram[Math.max(data[i], data[i + 1], data[i + 2])]++;
+          count++;
+        }
+      }
+
+      const { median, sigma } = robustStats(histogram, count);
+      const tileBloom = count < MIN_TILE_SAMPLES
+        ? globalBloom
+        : Math.min(250, Math.max(60, median + Math.max(sigmas * sigma, minContrast)));
+      const index = ty * tilesX + tx;
+      bloom[index] = tileBloom;
+      background[index] = Math.min(median, tileBloom);
+      halo[index] = (background[index] + tileBloom) / 2;
+      // A bright tile pushes the saturation test up with it, a dark one never lowers it
+      saturation[index] = Math.max(globalSaturation, tileBloom);
+    }
+  }
+
+  let minBloom = 255;
+  for (const value of bloom) minBloom = Math.min(minBloom, value);
+
+  return { tileSize: TILE_SIZE, tilesX, tilesY, bloom, saturation, halo, background, minBloom };
+}
+
+// Thresholds at a pixel, bilinearly interpolated between tile centers so
+// there are no seams at tile borders
+export function thresholdsAt(map: ThresholdMap, x: number, y: number): LocalThresholds {
+  const fx = Math.min(map.tilesX - 1, Math.max(0, x / map.tileSize - 0.5));
+  const fy = Math.min(map.tilesY - 1, Math.max(0, y / map.tileSize - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(map.tilesX - 1, x0 + 1);
+  const y1 = Math.min(map.tilesY - 1, y0 + 1);
+  const wx = fx - x0;
+  const wy = fy - y0;
+
+  const lerp = (values: Float32Array) => {
+    const top = values[y0 * map.tilesX + x0] * (1 - wx) + values[y0 * map.tilesX + x1] * wx;
+    const bottom = values[y1 * map.tilesX + x0] * (1 - wx) + values[y1 * map.tilesX + x1] * wx;
+    return top * (1 - wy) + bottom * wy;
+  };
+
+  return {
+    bloom: lerp(map.bloom),
+    saturation: lerp(map.saturation),
+    halo: lerp(map.halo),
+    background: lerp(map.background),
+  };
+}
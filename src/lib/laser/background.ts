@@ -0,0 +1,84 @@
+// Per-pixel background statistics captured during calibration, sampled on a
+// MODEL_STEP grid so it stays small for full HD frames.
+export interface BackgroundModel {
+  width: number; // frame size the model was captured at
+  height: number;
+  gridWidth: number;
+  mean: Float32Array;
+  variance: Float32Array;
+}
+
+export interface BackgroundAccumulator {
+  width: number;
+  height: number;
+  gridWidth: number;
+  frames: number;
+  sum: Float64Array;
+  sumSquares: Float64Array;
+}
+
+const MODEL_STEP = 2;
+// Compression and sensor noise a pixel is allowed before it counts as lit
+const MIN_EXCESS = 8;
+// Excess above the background at which a pixel keeps its full score
+const FULL_SCORE_EXCESS = 32;
+
+export function createBackgroundAccumulator(width: number, height: number): BackgroundAccumulator {
+  const gridWidth = Math.ceil(width / MODEL_STEP);
+  const size = gridWidth * Math.ceil(height / MODEL_STEP);
+  return {
+    width,
+    height,
+    gridWidth,
+    frames: 0,
+    sum: new Float64Array(size),
+    sumSquares: new Float64Array(size),
+  };
+}
+
+export function accumulateBackground(acc: BackgroundAccumulator, imageData: ImageData) {
+  const { data, width, height } = imageData;
+  if (width !== acc.width || height !== acc.height) return;
+
+  for (let y = 0; y < height; y += MODEL_STEP) {
+    for (let x = 0; x < width; x += MODEL_STEP) {
+      const i = (y * width + x) * 4;
+      const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
+      const index = (y / MODEL_STEP) * acc.gridWidth + x / MODEL_STEP;
+      acc.sum[index] += brightness;
+      acc.sumSquares[index] += brightness * brightness;
+    }
+  }
+  acc.frames++;
+}
+
+export function finishBackground(acc: BackgroundAccumulator): BackgroundModel | null {
+  if (acc.frames === 0) return null;
+
+  const mean = new Float32Array(acc.sum.length);
+  const variance = new Float32Array(acc.sum.length);
+  for (let i = 0; i < acc.sum.length; i++) {
+    mean[i] = acc.sum[i] / acc.frames;
+    variance[i] = Math.max(0, acc.sumSquares[i] / acc.frames - mean[i] * mean[i]);
+  }
+
+  return { width: acc.width, height: acc.height, gridWidth: acc.gridWidth, mean, variance };
+}
+
+// How much of its score a pixel keeps given how far it stands above the
+// background, 0 meaning it is part of the static scene. `k` is how many
+// standard deviations of background noise a pixel has to clear.
+export function backgroundWeight(
+  model: BackgroundModel,
+  x: number,
+  y: number,
+  brightness: number,
+  k: number
+): number {
+  const index = Math.floor(y / MODEL_STEP) * model.gridWidth + Math.floor(x / MODEL_STEP);
+  const noise = k * Math.sqrt(model.variance[index]) + MIN_EXCESS;
+  const excess = brightness - model.mean[index];
+
+  if (excess < noise) return 0;
+  return Math.min(1, excess / (noise + FULL_SCORE_EXCESS));
+}
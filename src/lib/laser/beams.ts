@@ -0,0 +1,108 @@
+import { LaserColor } from '@/lib/laser/color';
+
+export interface Candidate {
+  x: number;
+  y: number;
+  r: number;
+  g: number;
+  b: number;
+  score: number;
+  color: LaserColor;
+}
+
+// Part of the frame candidates are searched in, px, end exclusive
+export interface ScanBounds {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface CandidateBlob {
+  top: Candidate; // highest-scoring pixel of the blob
+  members: Candidate[];
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Groups candidate pixels sampled on a `step` grid into connected blobs.
+// Pixels up to `linkCells` grid cells apart are joined, so a beam whose core
+// breaks up into speckle still ends up as one blob.
+export function groupCandidates(
+  candidates: Candidate[],
+  width: number,
+  height: number,
+  step: number,
+  linkCells = 3
+): CandidateBlob[] {
+  const gridWidth = Math.ceil(width / step);
+  const gridHeight = Math.ceil(height / step);
+  const grid = new Int32Array(gridWidth * gridHeight).fill(-1);
+
+  candidates.forEach((c, index) => {
+    grid[Math.floor(c.y / step) * gridWidth + Math.floor(c.x / step)] = index;
+  });
+
+  const visited = new Uint8Array(candidates.length);
+  const blobs: CandidateBlob[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < candidates.length; start++) {
+    if (visited[start]) continue;
+    visited[start] = 1;
+    stack.push(start);
+
+    const first = candidates[start];
+    const blob: CandidateBlob = {
+      top: first,
+      members: [],
+      minX: first.x,
+      minY: first.y,
+      maxX: first.x,
+      maxY: first.y,
+    };
+
+    while (stack.length > 0) {
+      const c = candidates[stack.pop()];
+      blob.members.push(c);
+      if (c.score > blob.top.score) blob.top = c;
+      if (c.x < blob.minX) blob.minX = c.x;
+      if (c.x > blob.maxX) blob.maxX = c.x;
+      if (c.y < blob.minY) blob.minY = c.y;
+      if (c.y > blob.maxY) blob.maxY = c.y;
+
+      const gx = Math.floor(c.x / step);
+      const gy = Math.floor(c.y / step);
+      for (let ny = Math.max(0, gy - linkCells); ny <= Math.min(gridHeight - 1, gy + linkCells); ny++) {
+        for (let nx = Math.max(0, gx - linkCells); nx <= Math.min(gridWidth - 1, gx + linkCells); nx++) {
+          const neighbor = grid[ny * gridWidth + nx];
+          if (neighbor >= 0 && !visited[neighbor]) {
+            visited[neighbor] = 1;
+            stack.push(neighbor);
+          }
+        }
+      }
+    }
+
+    blobs.push(blob);
+  }
+
+  blobs.sort((a, b) => b.top.score - a.top.score);
+  return blobs;
+}
+
+// Most common color among the candidates, weighted by score
+export function dominantColor(candidates: Candidate[]): LaserColor {
+  const votes = new Map<LaserColor, number>();
+  for (const c of candidates) {
+    votes.set(c.color, (votes.get(c.color) ?? 0) + c.score);
+  }
+
+  let best: LaserColor = candidates[0].color;
+  for (const [color, weight] of votes) {
+    if (weight > votes.get(best)) best = color;
+  }
+  return best;
+}
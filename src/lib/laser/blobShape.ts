@@ -0,0 +1,143 @@
+// Shape of the bright region around a beam candidate, from a connected
+// component labeled at full resolution. A laser spot or line glows into its
+// surroundings; a specular glint on a screw head or glossy paint is small
+// and ends at a hard edge.
+export interface BlobShape {
+  area: number; // px
+  elongation: number; // major to minor axis ratio, 1 for a round spot
+  orientation: number; // degrees of the major axis, 0 = horizontal, positive = clockwise on screen
+  haloFalloff: number; // 0-1, glow just outside the blob relative to its peak; 0 for a hard edge
+}
+
+// Sizes below are for a frame this wide; the analysis resolution changes at
+// runtime, so they scale with the frame actually analyzed
+const REFERENCE_WIDTH = 1280;
+// Largest distance from the seed the component is grown to, px
+const MAX_EXTENT = 80;
+const MIN_EXTENT = 8;
+const GLINT_MAX_AREA = 16;
+const GLINT_MAX_FALLOFF = 0.08;
+// Falloff at which a blob counts as fully halo'd
+const FULL_HALO_FALLOFF = 0.15;
+
+function sizeScale(frameWidth: number): number {
+  return frameWidth / REFERENCE_WIDTH;
+}
+
+function valueAt(data: Uint8ClampedArray, i: number): number {
+  return Math.max(data[i], data[i + 1], data[i + 2]);
+}
+
+// Labels the 8-connected component of pixels at or above `threshold` that
+// contains (x, y) and measures its shape
+export function analyzeBlob(imageData: ImageData, x: number, y: number, threshold: number): BlobShape {
+  const { data, width, height } = imageData;
+  const extent = Math.max(MIN_EXTENT, Math.round(MAX_EXTENT * sizeScale(width)));
+  const x0 = Math.max(0, x - extent);
+  const y0 = Math.max(0, y - extent);
+  const x1 = Math.min(width - 1, x + extent);
+  const y1 = Math.min(height - 1, y + extent);
+  const windowWidth = x1 - x0 + 1;
+  const labeled = new Uint8Array(windowWidth * (y1 - y0 + 1));
+
+  let area = 0;
+  let sumX = 0, sumY = 0, sumXX = 0, sumYY = 0, sumXY = 0;
+  let peak = 0;
+  const stack = [y * width + x];
+  labeled[(y - y0) * windowWidth + (x - x0)] = 1;
+
+  while (stack.length > 0) {
+    const pixel = stack.pop();
+    const px = pixel % width;
+    const py = (pixel - px) / width;
+
+    area++;
+    sumX += px;
+    sumY += py;
+    sumXX += px * px;
+    sumYY += py * py;
+    sumXY += px * py;
+    peak = Math.max(peak, valueAt(data, pixel * 4));
+
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = px + dx;
+        const ny = py + dy;
+        if (nx < x0 || nx > x1 || ny < y0 || ny > y1) continue;
+
+        const cell = (ny - y0) * windowWidth + (nx - x0);
+        if (labeled[cell]) continue;
+        labeled[cell] = 1;
+        if (valueAt(data, (ny * width + nx) * 4) >= threshold) {
+          stack.push(ny * width + nx);
+        }
+      }
+    }
+  }
+
+  // Axes of the component from its second moments
+  const meanX = sumX / area;
+  const meanY = sumY / area;
+  const cxx = sumXX / area - meanX * meanX;
+  const cyy = sumYY / area - meanY * meanY;
+  const cxy = sumXY / area - meanX * meanY;
+  const spread = Math.sqrt(((cxx - cyy) / 2) ** 2 + cxy * cxy);
+  const major = (cxx + cyy) / 2 + spread;
+  // A pixel's own extent keeps a one pixel wide blob from dividing by zero
+  const minor = Math.max(1 / 12, (cxx + cyy) / 2 - spread);
+
+  return {
+    area,
+    elongation: Math.sqrt(Math.max(1 / 12, major) / minor),
+    orientation: (Math.atan2(2 * cxy, cxx - cyy) / 2) * (180 / Math.PI),
+    haloFalloff: haloFalloff(imageData, meanX, meanY, Math.sqrt(area / Math.PI), peak),
+  };
+}
+
+// Mean brightness in a ring just outside the blob, above the level further
+// out, relative to the blob's peak above that level
+function haloFalloff(imageData: ImageData, cx: number, cy: number, radius: number, peak: number): number {
+  const { data, width, height } = imageData;
+  const r = Math.max(1, radius);
+  // Thin enough to catch the glow right at the edge of a small blob
+  const ring = r + Math.max(1.5, r / 2);
+  const reach = Math.ceil(4 * r);
+  const step = Math.max(1, Math.round(r / 3));
+  let ringSum = 0, ringCount = 0;
+  let outerSum = 0, outerCount = 0;
+
+  for (let dy = -reach; dy <= reach; dy += step) {
+    for (let dx = -reach; dx <= reach; dx += step) {
+      const nx = Math.round(cx + dx);
+      const ny = Math.round(cy + dy);
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+
+      const distance = Math.hypot(dx, dy);
+      const value = valueAt(data, (ny * width + nx) * 4);
+      if (distance > r && distance <= ring) {
+        ringSum += value;
+        ringCount++;
+      } else if (distance > 3 * r && distance <= 4 * r) {
+        outerSum += value;
+        outerCount++;
+      }
+    }
+  }
+
+  if (ringCount === 0 || outerCount === 0) return 0;
+  const outer = outerSum / outerCount;
+  const falloff = (ringSum / ringCount - outer) / Math.max(1, peak - outer);
+  return Math.min(1, Math.max(0, falloff));
+}
+
+// Tiny and hard-edged: a reflection of some light source, not a beam.
+// `frameWidth` is the width of the frame the shape was measured in.
+export function isGlint(shape: BlobShape, frameWidth: number): boolean {
+  const maxArea = Math.max(1, GLINT_MAX_AREA * sizeScale(frameWidth) ** 2);
+  return shape.area <= maxArea && shape.haloFalloff < GLINT_MAX_FALLOFF;
+}
+
+// 0-1 preference among blobs; spots and lines with a real halo come first
+export function shapeQuality(shape: BlobShape): number {
+  return Math.min(1, 0.3 + 0.7 * (shape.haloFalloff / FULL_HALO_FALLOFF));
+}
@@ -0,0 +1,168 @@
+import { loadStored, saveStored } from '@/lib/laser/storage';
+
+export interface ControlRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// The image capture extensions to MediaTrackCapabilities this app uses.
+// A field is missing when the camera does not support it.
+export interface CameraCapabilities {
+  exposureTime?: ControlRange;
+  iso?: ControlRange;
+  focusDistance?: ControlRange;
+  colorTemperature?: ControlRange;
+  manualExposure: boolean;
+  manualFocus: boolean;
+  manualWhiteBalance: boolean;
+  torch: boolean;
+}
+
+export interface CameraControls {
+  exposureLocked: boolean;
+  exposureTime: number | null;
+  iso: number | null;
+  focusLocked: boolean;
+  focusDistance: number | null;
+  whiteBalanceLocked: boolean;
+  colorTemperature: number | null;
+  torch: boolean;
+}
+
+export const DEFAULT_CAMERA_CONTROLS: CameraControls = {
+  exposureLocked: false,
+  exposureTime: null,
+  iso: null,
+  focusLocked: false,
+  focusDistance: null,
+  whiteBalanceLocked: false,
+  colorTemperature: null,
+  torch: false,
+};
+
+type ExtendedCapabilities = MediaTrackCapabilities & {
+  exposureMode?: string[];
+  exposureTime?: ControlRange;
+  iso?: ControlRange;
+  focusMode?: string[];
+  focusDistance?: ControlRange;
+  whiteBalanceMode?: string[];
+  colorTemperature?: ControlRange;
+  torch?: boolean;
+};
+
+type ExtendedSettings = MediaTrackSettings & {
+  exposureTime?: number;
+  iso?: number;
+  focusDistance?: number;
+  colorTemperature?: number;
+};
+
+function toRange(range: ControlRange | undefined): ControlRange | undefined {
+  if (!range || !(range.max > range.min)) return undefined;
+  return { min: range.min, max: range.max, step: range.step || (range.max - range.min) / 100 };
+}
+
+export function readCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  // Firefox has no getCapabilities
+  const caps: ExtendedCapabilities = typeof track.getCapabilities === 'function'
+    ? track.getCapabilities()
+    : {};
+
+  return {
+    exposureTime: toRange(caps.exposureTime),
+    iso: toRange(caps.iso),
+    focusDistance: toRange(caps.focusDistance),
+    colorTemperature: toRange(caps.colorTemperature),
+    manualExposure: !!caps.exposureMode?.includes('manual'),
+    manualFocus: !!caps.focusMode?.includes('manual'),
+    manualWhiteBalance: !!caps.whiteBalanceMode?.includes('manual'),
+    torch: caps.torch === true,
+  };
+}
+
+export function hasCameraControls(caps: CameraCapabilities): boolean {
+  return caps.manualExposure || caps.manualFocus || caps.manualWhiteBalance || caps.torch;
+}
+
+// Fills in the values a lock starts from with what the camera uses right now
+export function withCurrentValues(track: MediaStreamTrack, controls: CameraControls): CameraControls {
+  const current: ExtendedSettings = track.getSettings();
+  return {
+    ...controls,
+    exposureTime: controls.exposureTime ?? current.exposureTime ?? null,
+    iso: controls.iso ?? current.iso ?? null,
+    focusDistance: controls.focusDistance ?? current.focusDistance ?? null,
+    colorTemperature: controls.colorTemperature ?? current.colorTemperature ?? null,
+  };
+}
+
+// Numbers the camera rounds to its own steps still count as applied
+function matches(requested: unknown, actual: unknown, range: ControlRange | undefined): boolean {
+  if (typeof requested === 'number' && typeof actual === 'number') {
+    return Math.abs(requested - actual) <= (range ? range.step : 0) + 1e-6;
+  }
+  return requested === actual;
+}
+
+// Applies the controls and resolves to the names of the constraints the
+// camera did not take. Each constraint is its own advanced set, because a
+// browser skips a whole set it cannot satisfy without rejecting the call.
+export async function applyCameraControls(
+  track: MediaStreamTrack,
+  caps: CameraCapabilities,
+  controls: CameraControls
+): Promise<string[]> {
+  const constraints: Record<string, unknown> = {};
+
+  if (caps.manualExposure) {
+    constraints.exposureMode = controls.exposureLocked ? 'manual' : 'continuous';
+    if (controls.exposureLocked && caps.exposureTime && controls.exposureTime !== null) {
+      constraints.exposureTime = controls.exposureTime;
+    }
+    if (controls.exposureLocked && caps.iso && controls.iso !== null) {
+      constraints.iso = controls.iso;
+    }
+  }
+
+  if (caps.manualFocus) {
+    constraints.focusMode = controls.focusLocked ? 'manual' : 'continuous';
+    if (controls.focusLocked && caps.focusDistance && controls.focusDistance !== null) {
+      constraints.focusDistance = controls.focusDistance;
+    }
+  }
+
+  if (caps.manualWhiteBalance) {
+    constraints.whiteBalanceMode = controls.whiteBalanceLocked ? 'manual' : 'continuous';
+    if (controls.whiteBalanceLocked && caps.colorTemperature && controls.colorTemperature !== null) {
+      constraints.colorTemperature = controls.colorTemperature;
+    }
+  }
+
+  if (caps.torch) {
+    constraints.torch = controls.torch;
+  }
+
+  const names = Object.keys(constraints);
+  if (names.length === 0) return [];
+  await track.applyConstraints({
+    advanced: names.map(name => ({ [name]: constraints[name] }) as MediaTrackConstraintSet),
+  });
+
+  const applied = track.getSettings() as Record<string, unknown>;
+  const ranges = caps as unknown as Record<string, ControlRange | undefined>;
+  return names.filter(name => !matches(constraints[name], applied[name], ranges[name]));
+}
+
+function storageKey(track: MediaStreamTrack): string {
+  return `laser-camera-controls:${track.getSettings().deviceId ?? track.label}`;
+}
+
+export function loadCameraControls(track: MediaStreamTrack): CameraControls {
+  return { ...DEFAULT_CAMERA_CONTROLS, ...loadStored<Partial<CameraControls>>(storageKey(track), {}) };
+}
+
+export function saveCameraControls(track: MediaStreamTrack, controls: CameraControls) {
+  saveStored(storageKey(track), controls);
+}
@@ -0,0 +1,138 @@
+export type LaserColor = 'red' | 'green' | 'blue' | 'custom' | 'learned';
+
+export interface HueWindow {
+  center: number; // degrees, 0-359
+  width: number; // full window width, degrees
+}
+
+// Hue windows of common laser diodes as phone cameras see them
+export const COLOR_PRESETS: Record<Exclude<LaserColor, 'custom' | 'learned'>, HueWindow> = {
+  red: { center: 0, width: 50 }, // 635-650nm
+  green: { center: 120, width: 70 }, // 520-532nm
+  blue: { center: 230, width: 60 }, // 450nm
+};
+
+export interface ColorWindow {
+  color: LaserColor;
+  window: HueWindow;
+}
+
+export interface HueChroma {
+  hue: number; // degrees, 0-359; meaningless when chroma is 0
+  chroma: number; // max - min channel, 0-255
+  value: number; // max channel, 0-255
+}
+
+export function rgbToHueChroma(r: number, g: number, b: number): HueChroma {
+  const value = Math.max(r, g, b);
+  const chroma = value - Math.min(r, g, b);
+  if (chroma === 0) return { hue: 0, chroma, value };
+
+  let hue: number;
+  if (value === r) {
+    hue = ((g - b) / chroma) % 6;
+  } else if (value === g) {
+    hue = (b - r) / chroma + 2;
+  } else {
+    hue = (r - g) / chroma + 4;
+  }
+  hue *= 60;
+
+  return { hue: hue < 0 ? hue + 360 : hue, chroma, value };
+}
+
+export function hueDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+export function inHueWindow(hue: number, window: HueWindow): boolean {
+  return hueDistance(hue, window.center) <= window.width / 2;
+}
+
+// The RGB channel a hue is closest to, for code that works per channel
+export function hueChannel(hue: number): 0 | 1 | 2 {
+  if (hueDistance(hue, 0) <= 60) return 0;
+  return hueDistance(hue, 120) <= 60 ? 1 : 2;
+}
+
+// Color model learned by sampling the beam on screen
+export interface ColorProfile {
+  hue: HueWindow;
+  minSaturation: number; // chroma / value, 0-1
+  brightness: number; // mean value of the sampled beam pixels
+  brightnessSpread: number; // their standard deviation
+}
+
+const SAMPLE_RADIUS = 12;
+const MIN_PROFILE_PIXELS = 6;
+
+// Builds a color profile from the beam pixels around (x, y). Only pixels close
+// to the brightest one in the area count, so the wall around the beam is ignored.
+export function learnColorProfile(imageData: ImageData, x: number, y: number): ColorProfile | null {
+  const { data, width, height } = imageData;
+  const cx = Math.round(x);
+  const cy = Math.round(y);
+  const pixels: HueChroma[] = [];
+  let peak = 0;
+
+  for (let dy = -SAMPLE_RADIUS; dy <= SAMPLE_RADIUS; dy++) {
+    for (let dx = -SAMPLE_RADIUS; dx <= SAMPLE_RADIUS; dx++) {
+      const nx = cx + dx;
+      const ny = cy + dy;
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height || dx * dx + dy * dy > SAMPLE_RADIUS * SAMPLE_RADIUS) continue;
+
+      const i = (ny * width + nx) * 4;
+      const pixel = rgbToHueChroma(data[i], data[i + 1], data[i + 2]);
+      pixels.push(pixel);
+      peak = Math.max(peak, pixel.value);
+    }
+  }
+
+  // Clipped white pixels carry no hue, the colored ones around them do
+  const beam = pixels.filter(p => p.value >= peak * 0.6 && p.chroma > 10);
+  if (beam.length < MIN_PROFILE_PIXELS) return null;
+
+  let sin = 0, cos = 0;
+  for (const p of beam) {
+    sin += Math.sin((p.hue * Math.PI) / 180);
+    cos += Math.cos((p.hue * Math.PI) / 180);
+  }
+  const meanHue = ((Math.atan2(sin, cos) * 180) / Math.PI + 360) % 360;
+  // Circular standard deviation from the mean resultant length
+  const resultant = Math.min(1, Math.hypot(sin, cos) / beam.length);
+  const hueSpread = (Math.sqrt(-2 * Math.log(Math.max(resultant, 1e-6))) * 180) / Math.PI;
+
+  const saturations = beam.map(p => p.chroma / p.value).sort((a, b) => a - b);
+  const brightness = beam.reduce((sum, p) => sum + p.value, 0) / beam.length;
+  const variance = beam.reduce((sum, p) => sum + (p.value - brightness) ** 2, 0) / beam.length;
+
+  return {
+    hue: {
+      center: Math.round(meanHue),
+      width: Math.round(Math.min(120, Math.max(20, hueSpread * 5))),
+    },
+    minSaturation: saturations[Math.floor(saturations.length * 0.1)] * 0.7,
+    brightness,
+    brightnessSpread: Math.sqrt(variance),
+  };
+}
+
+// How well a pixel matches a learned profile, 0 (not at all) to 1
+export function profileMatch(profile: ColorProfile, pixel: HueChroma): number {
+  if (pixel.chroma === 0) return 0;
+
+  const halfWidth = profile.hue.width / 2;
+  const hueOffset = hueDistance(pixel.hue, profile.hue.center) / halfWidth;
+  if (hueOffset > 1) return 0;
+  const hueScore = 1 - hueOffset * hueOffset;
+
+  const saturation = pixel.chroma / pixel.value;
+  const saturationScore = saturation >= profile.minSaturation ? 1 : saturation / profile.minSaturation;
+
+  // Brighter than the sample is fine, it is the same beam closer to the camera
+  const floor = profile.brightness - 2 * profile.brightnessSpread;
+  const brightnessScore = pixel.value >= floor ? 1 : Math.max(0, 1 - (floor - pixel.value) / 64);
+
+  return hueScore * saturationScore * brightnessScore;
+}
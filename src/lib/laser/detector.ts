@@ -0,0 +1,720 @@
+import { computeThresholdMap, thresholdsAt, LocalThresholds, ThresholdMap } from '@/lib/laser/adaptiveThreshold';
+import { backgroundWeight, BackgroundModel } from '@/lib/laser/background';
+import { dominantColor, groupCandidates, Candidate, CandidateBlob, ScanBounds } from '@/lib/laser/beams';
+import { analyzeBlob, isGlint, shapeQuality, BlobShape } from '@/lib/laser/blobShape';
+import {
+  inHueWindow,
+  profileMatch,
+  rgbToHueChroma,
+  COLOR_PRESETS,
+  ColorProfile,
+  ColorWindow,
+  HueWindow,
+  LaserColor,
+} from '@/lib/laser/color';
+import { isMasked, ExclusionMask } from '@/lib/laser/exclusionMask';
+import { FlickerVerdict } from '@/lib/laser/flickerFilter';
+import { fitCross, fitLine, CrossFit, LineFit } from '@/lib/laser/lineFit';
+import { LockSettings, LockStatus } from '@/lib/laser/lockState';
+import { collectPulseCandidates, PulseBuffer } from '@/lib/laser/pulse';
+import { buildPyramidLevel, PyramidLevel } from '@/lib/laser/pyramid';
+import { QualityPreset } from '@/lib/laser/qualityController';
+import { CameraMotion } from '@/lib/laser/registration';
+import { haloAround, isWhiteCore } from '@/lib/laser/saturatedCore';
+import { fitBeamCenter } from '@/lib/laser/subpixel';
+
+export type ColorMode = 'red' | 'green' | 'blue' | 'custom' | 'learned' | 'auto';
+export type DetectionMode = 'spot' | 'line' | 'cross';
+
+// Part of the frame to search, as fractions of its width and height
+export interface RegionOfInterest {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectorSettings {
+  sensitivity: number; // 0-100
+  colorMode: ColorMode;
+  customHue: HueWindow; // used in custom color mode
+  colorProfile: ColorProfile | null; // sampled from the beam, used in learned color mode
+  detectionMode: DetectionMode;
+  pulseMode: boolean; // find beams by frame differencing instead of brightness
+  adaptiveThreshold: boolean; // judge pixels against their local surroundings
+  roi: RegionOfInterest | null; // null searches the whole frame
+  exclusionMask: ExclusionMask | null; // painted-out areas that are never searched
+  autoMaskHotSpots: boolean; // add static light sources to the mask on calibration
+  quality: QualityPreset; // frame rate and analysis resolution trade-off
+  denoiseFrames: number; // frames averaged before detection, 1 = off
+  smoothing: number; // 0-10
+  lock: LockSettings; // hysteresis of the found/lost status
+  flickerFilter: boolean;
+  stabilization: boolean; // register frames against each other to cancel hand shake
+  mirror: boolean;
+  rotation: number; // 0, 90, 180, 270
+}
+
+export interface Beam {
+  x: number;
+  y: number;
+  intensity: number;
+  confidence: number; // 0-100, how far the beam clears the detector's floor in any mode
+  detectedColor: LaserColor;
+  size: number; // blob area, px
+  precision: number; // 1-sigma uncertainty of x/y, px
+  shape: BlobShape | null; // not measured in pulse mode
+}
+
+// Why a frame has or has no beam: the check the best candidate stopped at
+export type DetectionReason =
+  | 'found'
+  | 'no-candidates' // nothing bright and colored enough anywhere
+  | 'too-dim' // candidates, but none scores above the minimum
+  | 'no-halo' // bright enough, but without the glow around a real beam
+  | 'glint' // a tiny hard-edged reflection
+  | 'too-short' // line and cross modes: no line long enough
+  | 'settling' // just appeared, the flicker filter has not seen it long enough
+  | 'flickering' // pulses like mains lighting
+  | 'below-lock'; // found, but weaker than the status lock needs; set by the hook
+
+export interface DetectionDiagnostics {
+  reason: DetectionReason;
+  bestScore: number; // top candidate score, 0 without candidates
+  minScore: number; // score a candidate had to beat
+  bloomRatio: number | null; // halo coverage around the best spot, spot mode only
+  minBloomRatio: number | null; // coverage it had to reach
+}
+
+export interface DetectionResult {
+  found: boolean; // a beam in this frame, or one the tracker bridges a dropout with
+  status: LockStatus; // found/lost with hysteresis, what the UI reports
+  x: number;
+  y: number;
+  intensity: number;
+  confidence: number; // of the primary beam, see Beam
+  detectedColor: LaserColor | null;
+  precision: number | null; // 1-sigma uncertainty of x/y in px, spot mode only
+  shape: BlobShape | null; // of the primary beam, spot mode only
+  beams: Beam[]; // every beam in frame, spot mode only
+  primaryBeam: number; // index into beams driving x/y, -1 when none
+  line: LineFit | null; // only set in line mode
+  cross: CrossFit | null; // only set in cross mode
+  velocity: { x: number; y: number } | null; // px/s, set by the tracker
+  predicted: boolean; // x/y extrapolated by the tracker through a short dropout
+  motion: CameraMotion | null; // camera shake since stabilization started, null when it is off
+  wall: { x: number; y: number } | null; // x/y with the camera shake taken out, set by the tracker when stabilization is on
+  diagnostics: DetectionDiagnostics;
+  captureTime: number; // when the analyzed frame was captured, ms on the main thread's performance.now() clock
+  frameNumber: number; // of the analyzed frame, counted by the video element where it can
+}
+
+export const NO_DETECTION: DetectionResult = {
+  found: false,
+  status: 'lost',
+  x: 0,
+  y: 0,
+  intensity: 0,
+  confidence: 0,
+  detectedColor: null,
+  precision: null,
+  shape: null,
+  beams: [],
+  primaryBeam: -1,
+  line: null,
+  cross: null,
+  velocity: null,
+  predicted: false,
+  motion: null,
+  wall: null,
+  diagnostics: { reason: 'no-candidates', bestScore: 0, minScore: 0, bloomRatio: null, minBloomRatio: null },
+  captureTime: 0,
+  frameNumber: 0,
+};
+
+const MAX_BEAMS = 8;
+// Block size of the coarse search level, px
+const COARSE_FACTOR = 8;
+// Pulse candidates come from their own frame history, kept on a fine grid
+const PULSE_STEP = 2;
+
+interface Thresholds {
+  sensitivityFactor: number;
+  saturationThreshold: number;
+  bloomThreshold: number;
+  minScore: number;
+  map: ThresholdMap | null; // local thresholds replacing the two above
+}
+
+// Without a map there is no local background, the fixed halo level is the old 70% of bloom
+function localThresholds(thresholds: Thresholds, x: number, y: number): LocalThresholds {
+  return thresholds.map
+    ? thresholdsAt(thresholds.map, x, y)
+    : {
+      bloom: thresholds.bloomThreshold,
+      saturation: thresholds.saturationThreshold,
+      halo: thresholds.bloomThreshold * 0.7,
+      background: 0,
+    };
+}
+
+// State detectLaser carries between frames, owned by the caller
+export interface DetectionContext {
+  pulseBuffer: PulseBuffer;
+  background: BackgroundModel | null; // captured by calibration
+}
+
+// Pixel bounds of the region of interest, aligned to the sampling grid
+function scanBounds(roi: RegionOfInterest | null, width: number, height: number, step: number): ScanBounds {
+  if (!roi) return { x0: 0, y0: 0, x1: width, y1: height };
+
+  const align = (v: number) => Math.floor(v / step) * step;
+  return {
+    x0: align(Math.max(0, roi.x * width)),
+    y0: align(Math.max(0, roi.y * height)),
+    x1: Math.min(width, Math.ceil((roi.x + roi.width) * width)),
+    y1: Math.min(height, Math.ceil((roi.y + roi.height) * height)),
+  };
+}
+
+// Hue windows the current color mode looks for
+function colorWindows(settings: DetectorSettings): ColorWindow[] {
+  switch (settings.colorMode) {
+    case 'custom':
+      return [{ color: 'custom', window: settings.customHue }];
+    case 'learned':
+      if (settings.colorProfile) {
+        return [{ color: 'learned', window: settings.colorProfile.hue }];
+      }
+      // Nothing learned yet, look for any laser
+      return (['red', 'green', 'blue'] as const).map(color => ({ color, window: COLOR_PRESETS[color] }));
+    case 'auto':
+      return (['red', 'green', 'blue'] as const).map(color => ({ color, window: COLOR_PRESETS[color] }));
+    default:
+      return [{ color: settings.colorMode, window: COLOR_PRESETS[settings.colorMode] }];
+  }
+}
+
+// Brightness and color based candidates, one per cell of the coarse level at
+// the full resolution pixel it points to, classified by hue and chroma, or by
+// the learned profile in learned mode; clipped white pixels by their halo.
+// With a background model, pixels are scored by how far they rise above it.
+function collectCandidates(
+  imageData: ImageData,
+  settings: DetectorSettings,
+  level: PyramidLevel,
+  thresholds: Thresholds,
+  background: BackgroundModel | null
+): Candidate[] {
+  const data = imageData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+
+  const candidates: Candidate[] = [];
+  const windows = colorWindows(settings);
+  const profile = settings.colorMode === 'learned' ? settings.colorProfile : null;
+  // The model is captured at full resolution while frames may be analyzed
+  // scaled down; one from a camera with another aspect does not line up at all
+  const modelScale = background ? background.width / width : 1;
+  const model = background && Math.abs(background.height - height * modelScale) < 2
+    ? background
+    : null;
+  const noiseSigmas = 6 - (settings.sensitivity / 100) * 3;
+  const mask = settings.exclusionMask;
+  const minBloom = thresholds.map ? thresholds.map.minBloom : thresholds.bloomThreshold;
+  
+  for (const pixel of level.source) {
+    if (pixel < 0) continue;
+    const x = pixel % width;
+    const y = (pixel - x) / width;
+    const i = pixel * 4;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const { hue, chroma, value } = rgbToHueChroma(r, g, b);
+
+    // The laser channel has to be bright; blue and violet beams stay dark in the mean
+    if (value < minBloom) continue;
+    if (mask && isMasked(mask, x, y, width, height)) continue;
+    const { bloom: bloomThreshold, saturation: saturationThreshold } = localThresholds(thresholds, x, y);
+    if (value < bloomThreshold) continue;
+
+    const brightness = (r + g + b) / 3;
+    const weight = model ? backgroundWeight(model, x * modelScale, y * modelScale, brightness, noiseSigmas) : 1;
+    if (weight === 0) continue;
+
+    // A white core has no hue of its own and is judged by the color of its halo
+    const white = isWhiteCore(r, g, b);
+    const core = white ? haloAround(imageData, x, y) : null;
+    if (white && !core) continue;
+    const tone = core ?? { hue, chroma, value };
+    
+    let score = 0;
+    let color: LaserColor | null = null;
+
+    if (profile) {
+      const match = profileMatch(profile, tone);
+      // Weak matches are the wall or another light source
+      if (match > 0.3) {
+        score = (value + tone.chroma * 2 + (brightness > 250 ? 100 : 0)) * match;
+        color = 'learned';
+      }
+    }
+
+    for (const candidate of profile ? [] : windows) {
+      if (tone.chroma === 0 || !inHueWindow(tone.hue, candidate.window)) continue;
+
+      // A clipped core keeps only a tint of the laser hue, the bloom around it is clearly colored
+      const isSaturatedCore = core !== null || (value >= saturationThreshold && (chroma > 20 || value > 250));
+      const isBloom = value > bloomThreshold && chroma > value * 0.1;
+      if (!isSaturatedCore && !isBloom) continue;
+
+      const windowScore = value + tone.chroma * 2 + (brightness > 250 ? 100 : 0);
+      if (windowScore > score) {
+        score = windowScore;
+        color = candidate.color;
+      }
+    }
+    
+    if (color && score > 0) {
+      candidates.push({ x, y, r, g, b, score: score * weight, color });
+    }
+  }
+
+  return candidates;
+}
+
+// Everything kept between frames comes in through `context`
+export function detectLaser(
+  imageData: ImageData,
+  settings: DetectorSettings,
+  context: DetectionContext
+): DetectionResult {
+  const width = imageData.width;
+  const height = imageData.height;
+
+  const sensitivityFactor = settings.sensitivity / 100;
+  const saturationThreshold = 250 - (sensitivityFactor * 50);
+  const bloomThreshold = 200 - (sensitivityFactor * 80);
+
+  const pulseThreshold = 40 - (sensitivityFactor * 30);
+  // Pulse scores are temporal swings, not brightness, so they get their own floor
+  const minScore = settings.pulseMode
+    ? pulseThreshold * 1.5
+    : 200 - (sensitivityFactor * 100);
+
+  const thresholds: Thresholds = {
+    sensitivityFactor,
+    saturationThreshold,
+    bloomThreshold,
+    minScore,
+    map: settings.adaptiveThreshold && !settings.pulseMode
+      ? computeThresholdMap(imageData, bloomThreshold, saturationThreshold, sensitivityFactor)
+      : null,
+  };
+
+  // Candidates come from the coarse level, only measuring a beam reads the
+  // full resolution frame, and only around the beam
+  const step = settings.pulseMode ? PULSE_STEP : COARSE_FACTOR;
+  const bounds = scanBounds(settings.roi, width, height, step);
+  const mask = settings.exclusionMask;
+  const candidates = settings.pulseMode
+    ? collectPulseCandidates(context.pulseBuffer, imageData, step, colorWindows(settings), pulseThreshold, bounds)
+      .filter(c => !mask || !isMasked(mask, c.x, c.y, width, height))
+    : collectCandidates(
+      imageData,
+      settings,
+      buildPyramidLevel(imageData, COARSE_FACTOR, bounds),
+      thresholds,
+      context.background
+    );
+
+  const diagnostics: DetectionDiagnostics = {
+    ...NO_DETECTION.diagnostics,
+    minScore,
+  };
+
+  if (candidates.length === 0) {
+    return { ...NO_DETECTION, diagnostics };
+  }
+  
+  candidates.sort((a, b) => b.score - a.score);
+  const topCandidate = candidates[0];
+  diagnostics.bestScore = topCandidate.score;
+
+  if (settings.detectionMode === 'line' || settings.detectionMode === 'cross') {
+    return detectLines(candidates, diagnostics, width, height, settings.detectionMode);
+  }
+  
+  const beams: Beam[] = [];
+  // Ranking of the beams, their blob score weighted by how beam-like their shape is
+  const ranks = new Map<Beam, number>();
+  // Halo check of the strongest blob, replaced by the first one that passed
+  let halo: BeamMeasurement | null = null;
+
+  // Coarse cells are already far apart, so only direct neighbors are joined
+  const linkCells = settings.pulseMode ? 3 : 1;
+  for (const blob of groupCandidates(candidates, width, height, step, linkCells)) {
+    // Blobs come sorted by score, so nothing after this one can pass
+    if (blob.top.score <= minScore || beams.length >= MAX_BEAMS) break;
+
+    if (settings.pulseMode) {
+      beams.push(measurePulseBeam(blob, step, minScore));
+      continue;
+    }
+
+    const measurement = measureBeam(imageData, blob, step, thresholds);
+    if (!halo || (measurement.beam && beams.length === 0)) halo = measurement;
+    if (measurement.beam) {
+      beams.push(measurement.beam);
+      ranks.set(measurement.beam, blob.top.score * shapeQuality(measurement.beam.shape));
+    }
+  }
+  // A weaker blob with a real halo beats a brighter hard-edged one
+  if (!settings.pulseMode) beams.sort((a, b) => ranks.get(b) - ranks.get(a));
+
+  if (halo) {
+    diagnostics.bloomRatio = halo.bloomRatio;
+    diagnostics.minBloomRatio = halo.minBloomRatio;
+  }
+
+  if (beams.length === 0) {
+    const reason = !halo ? 'too-dim' : halo.glint ? 'glint' : 'no-halo';
+    return { ...NO_DETECTION, diagnostics: { ...diagnostics, reason } };
+  }
+
+  return {
+    ...NO_DETECTION,
+    found: true,
+    diagnostics: { ...diagnostics, reason: 'found' },
+    ...primaryFields(beams[0]),
+    beams,
+    primaryBeam: 0,
+  };
+}
+
+// Largest beam radius measured, px; anything wider is a lit surface anyway
+const MAX_BEAM_RADIUS = 40;
+
+// How far the beam around (x, y) stays above the bloom threshold, averaged
+// over the four directions, px
+function beamRadius(imageData: ImageData, x: number, y: number, bloomThreshold: number): number {
+  const { data, width, height } = imageData;
+  const directions = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+  let total = 0;
+
+  for (const [dx, dy] of directions) {
+    let distance = 0;
+    while (distance < MAX_BEAM_RADIUS) {
+      const nx = x + dx * (distance + 1);
+      const ny = y + dy * (distance + 1);
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) break;
+
+      const i = (ny * width + nx) * 4;
+      if (Math.max(data[i], data[i + 1], data[i + 2]) < bloomThreshold) break;
+      distance++;
+    }
+    total += distance;
+  }
+
+  return total / directions.length;
+}
+
+interface BeamMeasurement {
+  beam: Beam | null; // null when the halo or shape check failed
+  bloomRatio: number;
+  minBloomRatio: number;
+  glint: boolean;
+}
+
+// Confirms a blob by the halo around its brightest pixel and refines its center
+// to sub-pixel accuracy. Every radius scales with the size of the beam, so a
+// distant dot and a close-up spot are both judged on their own neighborhood.
+function measureBeam(
+  imageData: ImageData,
+  blob: CandidateBlob,
+  step: number,
+  thresholds: Thresholds
+): BeamMeasurement {
+  const data = imageData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+  const topCandidate = blob.top;
+  const { sensitivityFactor } = thresholds;
+  const { bloom: bloomThreshold, halo: haloLevel, background } =
+    localThresholds(thresholds, topCandidate.x, topCandidate.y);
+
+  const radius = beamRadius(imageData, topCandidate.x, topCandidate.y, bloomThreshold);
+  const bloomRadius = Math.round(Math.min(48, Math.max(6, radius * 2)));
+  // About the same number of samples at every radius
+  const bloomStep = Math.max(1, Math.round(bloomRadius / 5));
+  let bloomPixels = 0;
+  let totalChecked = 0;
+  
+  for (let dy = -bloomRadius; dy <= bloomRadius; dy += bloomStep) {
+    for (let dx = -bloomRadius; dx <= bloomRadius; dx += bloomStep) {
+      const nx = topCandidate.x + dx;
+      const ny = topCandidate.y + dy;
+      
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+      
+      const ni = (ny * width + nx) * 4;
+      // The brightest channel, the one the thresholds were measured in
+      const value = Math.max(data[ni], data[ni + 1], data[ni + 2]);
+      
+      totalChecked++;
+      if (value > haloLevel) {
+        bloomPixels++;
+      }
+    }
+  }
+  
+  const bloomRatio = totalChecked > 0 ? bloomPixels / totalChecked : 0;
+  const minBloomRatio = 0.15 - (sensitivityFactor * 0.1);
+  
+  if (bloomRatio <= minBloomRatio) return { beam: null, bloomRatio, minBloomRatio, glint: false };
+
+  const shape = analyzeBlob(imageData, topCandidate.x, topCandidate.y, bloomThreshold);
+  if (isGlint(shape, imageData.width)) return { beam: null, bloomRatio, minBloomRatio, glint: true };
+
+  let x = topCandidate.x;
+  let y = topCandidate.y;
+  let sumX = 0, sumY = 0, sumWeight = 0;
+  const refineRadius = Math.round(Math.min(36, Math.max(3, radius * 1.5)));
+  
+  for (let dy = -refineRadius; dy <= refineRadius; dy++) {
+    for (let dx = -refineRadius; dx <= refineRadius; dx++) {
+      const nx = topCandidate.x + dx;
+      const ny = topCandidate.y + dy;
+      
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+      
+      const ni = (ny * width + nx) * 4;
+      const value = Math.max(data[ni], data[ni + 1], data[ni + 2]);
+      
+      // Every pixel of the beam core, weighted by how far it stands above the wall
+      if (value > bloomThreshold) {
+        const weight = value - background;
+        sumX += nx * weight;
+        sumY += ny * weight;
+        sumWeight += weight;
+      }
+    }
+  }
+  
+  if (sumWeight > 0) {
+    x = sumX / sumWeight;
+    y = sumY / sumWeight;
+  }
+
+  // The centroid of the core only seeds the profile fit, whose window
+  // has to reach past the halo to see the background
+  const center = fitBeamCenter(imageData, x, y, Math.round(Math.min(64, Math.max(8, radius * 3))));
+
+  const beam: Beam = {
+    x: center.x,
+    y: center.y,
+    intensity: Math.min(100, Math.round(topCandidate.score / 4)),
+    confidence: confidenceOf(topCandidate.score, thresholds.minScore),
+    detectedColor: dominantColor(blob.members),
+    size: blob.members.length * step * step,
+    precision: center.precision,
+    shape,
+  };
+  return { beam, bloomRatio, minBloomRatio, glint: false };
+}
+
+// Pulse beams have no steady halo or profile to fit, so their center is the
+// swing-weighted centroid of the blob
+function measurePulseBeam(blob: CandidateBlob, step: number, minScore: number): Beam {
+  let sumX = 0, sumY = 0, sumWeight = 0;
+  for (const c of blob.members) {
+    sumX += c.x * c.score;
+    sumY += c.y * c.score;
+    sumWeight += c.score;
+  }
+  const x = sumX / sumWeight;
+  const y = sumY / sumWeight;
+
+  let spread = 0;
+  for (const c of blob.members) {
+    spread += ((c.x - x) ** 2 + (c.y - y) ** 2) * c.score;
+  }
+
+  return {
+    x,
+    y,
+    intensity: Math.min(100, Math.round(blob.top.score / 2)),
+    confidence: confidenceOf(blob.top.score, minScore),
+    detectedColor: dominantColor(blob.members),
+    size: blob.members.length * step * step,
+    // Standard error of the centroid, never better than the sampling grid allows
+    precision: Math.max(step / Math.sqrt(12), Math.sqrt(spread / sumWeight / blob.members.length)),
+    shape: null,
+  };
+}
+
+// Intensity is scaled differently per mode; this is 0 at the detection floor
+// and 100 at twice it in all of them
+function confidenceOf(score: number, minScore: number): number {
+  return Math.min(100, Math.max(0, Math.round(((score - minScore) / minScore) * 100)));
+}
+
+// The readout fields of a result that come from its primary beam
+function primaryFields(beam: Beam) {
+  return {
+    x: beam.x,
+    y: beam.y,
+    intensity: beam.intensity,
+    confidence: beam.confidence,
+    detectedColor: beam.detectedColor,
+    precision: beam.precision,
+    shape: beam.shape,
+  };
+}
+
+// Drops the sources the flicker filter rejected. In spot mode each beam has its
+// own verdict; line and cross modes have a single one for the whole result.
+export function applyFlickerVerdicts(detection: DetectionResult, verdicts: FlickerVerdict[]): DetectionResult {
+  // A flickering source explains the miss better than one that is still settling
+  const rejected: DetectionResult = {
+    ...NO_DETECTION,
+    diagnostics: {
+      ...detection.diagnostics,
+      reason: verdicts.includes('flickering') ? 'flickering' : 'settling',
+    },
+  };
+
+  if (detection.beams.length === 0) {
+    return verdicts[0] === 'steady' ? detection : rejected;
+  }
+
+  const beams = detection.beams.filter((_, index) => verdicts[index] === 'steady');
+  if (beams.length === 0) return rejected;
+
+  return {
+    ...detection,
+    ...primaryFields(beams[0]),
+    beams,
+    primaryBeam: 0,
+  };
+}
+
+function scaleLine(line: LineFit, factor: number): LineFit {
+  return {
+    ...line,
+    offset: line.offset * factor,
+    residual: line.residual * factor,
+    x: line.x * factor,
+    y: line.y * factor,
+    length: line.length * factor,
+  };
+}
+
+function scaleShape(shape: BlobShape | null, factor: number): BlobShape | null {
+  return shape && { ...shape, area: shape.area * factor * factor };
+}
+
+// Converts a result from a frame analyzed at reduced resolution back to
+// video pixels
+export function scaleDetection(detection: DetectionResult, factor: number): DetectionResult {
+  if (factor === 1) return detection;
+
+  return {
+    ...detection,
+    x: detection.x * factor,
+    y: detection.y * factor,
+    precision: detection.precision === null ? null : detection.precision * factor,
+    shape: scaleShape(detection.shape, factor),
+    beams: detection.beams.map(beam => ({
+      ...beam,
+      x: beam.x * factor,
+      y: beam.y * factor,
+      size: beam.size * factor * factor,
+      precision: beam.precision * factor,
+      shape: scaleShape(beam.shape, factor),
+    })),
+    line: detection.line && scaleLine(detection.line, factor),
+    cross: detection.cross && {
+      ...detection.cross,
+      horizontal: scaleLine(detection.cross.horizontal, factor),
+      vertical: scaleLine(detection.cross.vertical, factor),
+      x: detection.cross.x * factor,
+      y: detection.cross.y * factor,
+    },
+    velocity: detection.velocity && { x: detection.velocity.x * factor, y: detection.velocity.y * factor },
+    wall: detection.wall && { x: detection.wall.x * factor, y: detection.wall.y * factor },
+    motion: detection.motion && {
+      ...detection.motion,
+      x: detection.motion.x * factor,
+      y: detection.motion.y * factor,
+      shift: { x: detection.motion.shift.x * factor, y: detection.motion.shift.y * factor },
+    },
+  };
+}
+
+// Makes the beam closest to the user's pick drive the main readout
+export function pickPrimaryBeam(
+  detection: DetectionResult,
+  target: { x: number; y: number }
+): DetectionResult {
+  let best = detection.primaryBeam;
+  let bestDistance = Infinity;
+  detection.beams.forEach((beam, index) => {
+    const distance = Math.hypot(beam.x - target.x, beam.y - target.y);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = index;
+    }
+  });
+
+  return {
+    ...detection,
+    ...primaryFields(detection.beams[best]),
+    primaryBeam: best,
+  };
+}
+
+// Line and cross modes: fit lines through every strong beam pixel instead of refining one spot
+function detectLines(
+  candidates: Candidate[],
+  diagnostics: DetectionDiagnostics,
+  width: number,
+  height: number,
+  mode: 'line' | 'cross'
+): DetectionResult {
+  const { bestScore: topScore, minScore } = diagnostics;
+  if (topScore <= minScore) {
+    return { ...NO_DETECTION, diagnostics: { ...diagnostics, reason: 'too-dim' } };
+  }
+
+  const scoreCutoff = Math.max(minScore, topScore * 0.5);
+  const beamPixels = candidates.filter(c => c.score > scoreCutoff);
+  const points = beamPixels.map(c => ({ x: c.x, y: c.y, weight: c.score }));
+
+  // A short blob is a spot or a glint, not a projected line
+  const minLength = Math.min(width, height) * 0.15;
+  const tooShort: DetectionResult = { ...NO_DETECTION, diagnostics: { ...diagnostics, reason: 'too-short' } };
+
+  const result: DetectionResult = {
+    ...NO_DETECTION,
+    found: true,
+    intensity: Math.min(100, Math.round(topScore / 4)),
+    confidence: confidenceOf(topScore, minScore),
+    detectedColor: dominantColor(beamPixels),
+    diagnostics: { ...diagnostics, reason: 'found' },
+  };
+
+  if (mode === 'cross') {
+    const cross = fitCross(points, width, height);
+    if (!cross || cross.horizontal.length < minLength || cross.vertical.length < minLength) {
+      return tooShort;
+    }
+    return { ...result, x: cross.x, y: cross.y, cross };
+  }
+
+  const line = fitLine(points, width, height);
+  if (!line || line.length < minLength) return tooShort;
+
+  return { ...result, x: line.x, y: line.y, line };
+}
@@ -0,0 +1,60 @@
+import { scaleDetection, DetectionResult, DetectorSettings, NO_DETECTION } from '@/lib/laser/detector';
+import { createFrameProcessor, drawFrame, processImage, WorkerRequest, WorkerResponse } from '@/lib/laser/frameProcessor';
+import { createFrameReader, readFrame } from '@/lib/laser/frameReader';
+
+// Runs detection off the main thread. Frames arrive as transferred bitmaps,
+// get drawn into one reused OffscreenCanvas, read into one reused buffer and
+// each one is answered with its detection result.
+
+const worker = self as unknown as Worker;
+const processor = createFrameProcessor();
+const reader = createFrameReader();
+const canvas = new OffscreenCanvas(1, 1);
+const ctx = canvas.getContext('2d', { willReadFrequently: !reader.gl });
+// Surfaces as an error event on the Worker, which sends the hook back to the main thread
+if (!ctx) throw new Error('OffscreenCanvas has no 2D context');
+let settings: DetectorSettings | null = null;
+
+function respond(detection: DetectionResult) {
+  const response: WorkerResponse = { type: 'detection', detection };
+  worker.postMessage(response);
+}
+
+worker.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const message = e.data;
+
+  switch (message.type) {
+    case 'settings':
+      settings = message.settings;
+      break;
+    case 'background':
+      processor.background = message.background;
+      break;
+    case 'flatField':
+      processor.flatField = message.flatField;
+      break;
+    case 'frame': {
+      const { bitmap, frame, scale } = message;
+      if (!settings) {
+        bitmap.close();
+        respond({ ...NO_DETECTION, captureTime: frame.time, frameNumber: frame.number });
+        break;
+      }
+
+      // The frame is analyzed at the resolution the quality controller picked
+      const width = Math.round(bitmap.width * scale);
+      const height = Math.round(bitmap.height * scale);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      drawFrame(ctx, bitmap, settings.mirror);
+      const factor = bitmap.width / width;
+      bitmap.close();
+
+      const imageData = readFrame(reader, canvas, ctx);
+      respond(scaleDetection(processImage(processor, imageData, settings, frame), factor));
+      break;
+    }
+  }
+};
@@ -0,0 +1,87 @@
+import { BackgroundModel } from '@/lib/laser/background';
+
+// Areas of the frame detection ignores, on a coarse grid over frame
+// fractions so it does not depend on the camera resolution
+export interface ExclusionMask {
+  cols: number;
+  rows: number;
+  cells: Uint8Array; // 1 = excluded
+}
+
+const MASK_COLS = 64;
+const MASK_ROWS = 36;
+// Background brightness of a static light source that would outshine a beam
+const HOT_SPOT_BRIGHTNESS = 230;
+// Share of a cell that has to be that bright for the cell to be excluded
+const HOT_SPOT_COVERAGE = 0.3;
+
+export function createExclusionMask(): ExclusionMask {
+  return { cols: MASK_COLS, rows: MASK_ROWS, cells: new Uint8Array(MASK_COLS * MASK_ROWS) };
+}
+
+export function isMaskEmpty(mask: ExclusionMask | null): boolean {
+  return !mask || !mask.cells.some(cell => cell === 1);
+}
+
+export function isMasked(mask: ExclusionMask, x: number, y: number, width: number, height: number): boolean {
+  const col = Math.min(mask.cols - 1, Math.floor((x / width) * mask.cols));
+  const row = Math.min(mask.rows - 1, Math.floor((y / height) * mask.rows));
+  return mask.cells[row * mask.cols + col] === 1;
+}
+
+// Returns a new mask with a round brush stroke at (fx, fy), in frame fractions.
+// The brush radius is a fraction of the frame height.
+export function paintMask(
+  mask: ExclusionMask | null,
+  fx: number,
+  fy: number,
+  radius: number,
+  excluded: boolean
+): ExclusionMask {
+  const base = mask ?? createExclusionMask();
+  const next = { ...base, cells: base.cells.slice() };
+  const value = excluded ? 1 : 0;
+
+  for (let row = 0; row < next.rows; row++) {
+    for (let col = 0; col < next.cols; col++) {
+      const cx = (col + 0.5) / next.cols;
+      const cy = (row + 0.5) / next.rows;
+      // Distances in frame-height units keep the brush round on a 16:9 frame
+      const dx = ((cx - fx) * next.cols) / next.rows;
+      const dy = cy - fy;
+      if (dx * dx + dy * dy <= radius * radius) {
+        next.cells[row * next.cols + col] = value;
+      }
+    }
+  }
+
+  return next;
+}
+
+// Adds the cells that are lit by static light sources in the calibration
+// background (lamps, windows, reflections) to the mask
+export function maskHotSpots(mask: ExclusionMask | null, model: BackgroundModel): ExclusionMask {
+  const base = mask ?? createExclusionMask();
+  const next = { ...base, cells: base.cells.slice() };
+  const gridHeight = model.mean.length / model.gridWidth;
+  const bright = new Uint32Array(next.cells.length);
+  const total = new Uint32Array(next.cells.length);
+
+  for (let gy = 0; gy < gridHeight; gy++) {
+    const row = Math.min(next.rows - 1, Math.floor((gy / gridHeight) * next.rows));
+    for (let gx = 0; gx < model.gridWidth; gx++) {
+      const col = Math.min(next.cols - 1, Math.floor((gx / model.gridWidth) * next.cols));
+      const cell = row * next.cols + col;
+      total[cell]++;
+      if (model.mean[gy * model.gridWidth + gx] >= HOT_SPOT_BRIGHTNESS) bright[cell]++;
+    }
+  }
+
+  for (let i = 0; i < next.cells.length; i++) {
+    if (total[i] > 0 && bright[i] / total[i] >= HOT_SPOT_COVERAGE) {
+      next.cells[i] = 1;
+    }
+  }
+
+  return next;
+}
@@ -0,0 +1,143 @@
+import { loadStored, saveStored } from '@/lib/laser/storage';
+
+// Lens vignetting correction. Calibrated on an evenly lit white surface: a
+// coarse grid of gains that brings every part of the frame up to the level
+// of its brightest part, so a beam scores the same at the edge as at the
+// center. Stored per camera, since every lens shades differently.
+export interface FlatField {
+  columns: number;
+  rows: number;
+  gains: number[]; // per grid cell, row by row; plain numbers so it survives JSON
+  mirrored: boolean; // frames were mirrored when it was captured
+}
+
+export interface FlatFieldAccumulator {
+  width: number;
+  height: number;
+  frames: number;
+  sum: Float64Array; // per grid cell, summed over frames
+  count: Float64Array;
+}
+
+// Per-pixel gains for one frame size, rebuilt when the analysis resolution changes
+export interface GainMap {
+  field: FlatField;
+  width: number;
+  height: number;
+  mirrored: boolean;
+  gains: Float32Array;
+}
+
+const GRID_COLUMNS = 32;
+const GRID_ROWS = 18;
+const SAMPLE_STEP = 2;
+// The brightest cell has to be lit well enough to measure against, without clipping
+const MIN_REFERENCE = 60;
+const MAX_REFERENCE = 245;
+// Corners darker than this are more likely a shadow on the surface than the lens
+const MAX_GAIN = 4;
+
+export function createFlatFieldAccumulator(width: number, height: number): FlatFieldAccumulator {
+  return {
+    width,
+    height,
+    frames: 0,
+    sum: new Float64Array(GRID_COLUMNS * GRID_ROWS),
+    count: new Float64Array(GRID_COLUMNS * GRID_ROWS),
+  };
+}
+
+export function accumulateFlatField(acc: FlatFieldAccumulator, imageData: ImageData) {
+  const { data, width, height } = imageData;
+  if (width !== acc.width || height !== acc.height) return;
+
+  for (let y = 0; y < height; y += SAMPLE_STEP) {
+    const row = Math.floor((y * GRID_ROWS) / height);
+    for (let x = 0; x < width; x += SAMPLE_STEP) {
+      const i = (y * width + x) * 4;
+      const cell = row * GRID_COLUMNS + Math.floor((x * GRID_COLUMNS) / width);
+      acc.sum[cell] += (data[i] + data[i + 1] + data[i + 2]) / 3;
+      acc.count[cell]++;
+    }
+  }
+  acc.frames++;
+}
+
+// Null when the surface was too dark or overexposed to calibrate against
+export function finishFlatField(acc: FlatFieldAccumulator, mirrored: boolean): FlatField | null {
+  if (acc.frames === 0) return null;
+
+  const means = Array.from(acc.sum, (sum, cell) => (acc.count[cell] > 0 ? sum / acc.count[cell] : 0));
+  const reference = Math.max(...means);
+  if (reference < MIN_REFERENCE || reference > MAX_REFERENCE) return null;
+
+  return {
+    columns: GRID_COLUMNS,
+    rows: GRID_ROWS,
+    gains: means.map(mean => Math.min(MAX_GAIN, reference / Math.max(1, mean))),
+    mirrored,
+  };
+}
+
+// Reuses `map` unless the field, the frame size or the mirroring changed
+export function gainMapFor(
+  map: GainMap | null,
+  field: FlatField,
+  width: number,
+  height: number,
+  mirrored: boolean
+): GainMap {
+  if (map && map.field === field && map.width === width && map.height === height && map.mirrored === mirrored) {
+    return map;
+  }
+
+  const { columns, rows } = field;
+  const gains = new Float32Array(width * height);
+  const flip = mirrored !== field.mirrored;
+
+  // Bilinear between cell centers, clamped at the frame edges
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(rows - 1, Math.max(0, ((y + 0.5) * rows) / height - 0.5));
+    const r0 = Math.floor(gy);
+    const r1 = Math.min(rows - 1, r0 + 1);
+    const fy = gy - r0;
+
+    for (let x = 0; x < width; x++) {
+      const sourceX = flip ? width - 1 - x : x;
+      const gx = Math.min(columns - 1, Math.max(0, ((sourceX + 0.5) * columns) / width - 0.5));
+      const c0 = Math.floor(gx);
+      const c1 = Math.min(columns - 1, c0 + 1);
+      const fx = gx - c0;
+
+      const top = field.gains[r0 * columns + c0] * (1 - fx) + field.gains[r0 * columns + c1] * fx;
+      const bottom = field.gains[r1 * columns + c0] * (1 - fx) + field.gains[r1 * columns + c1] * fx;
+      gains[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+
+  return { field, width, height, mirrored, gains };
+}
+
+// Evens out the frame in place
+export function applyGainMap(map: GainMap, imageData: ImageData) {
+  const { data } = imageData;
+  const { gains } = map;
+  for (let pixel = 0, i = 0; pixel < gains.length; pixel++, i += 4) {
+    const gain = gains[pixel];
+    data[i] *= gain;
+    data[i + 1] *= gain;
+    data[i + 2] *= gain;
+  }
+}
+
+function storageKey(track: MediaStreamTrack): string {
+  return `laser-flat-field:${track.getSettings().deviceId ?? track.label}`;
+}
+
+export function loadFlatField(track: MediaStreamTrack): FlatField | null {
+  return loadStored<FlatField | null>(storageKey(track), null);
+}
+
+export function saveFlatField(track: MediaStreamTrack, field: FlatField | null) {
+  saveStored(storageKey(track), field);
+}
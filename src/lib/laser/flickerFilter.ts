@@ -0,0 +1,134 @@
+interface BrightnessSample {
+  time: number; // ms
+  brightness: number;
+}
+
+interface FlickerTrack {
+  x: number;
+  y: number;
+  age: number; // consecutive frames the source has been seen
+  samples: BrightnessSample[];
+}
+
+export interface FlickerFilterState {
+  tracks: FlickerTrack[];
+}
+
+// 'settling' until a source has stayed in place for PERSIST_FRAMES frames
+export type FlickerVerdict = 'steady' | 'settling' | 'flickering';
+
+// Frames a beam has to stay in place before it is reported
+const PERSIST_FRAMES = 5;
+// Max movement between consecutive frames for the same source, px
+const MATCH_DISTANCE = 16;
+const HISTORY_LENGTH = 32;
+const SAMPLE_RADIUS = 4;
+// Lamps and screens on 50/60 Hz mains pulse at twice the line frequency
+const MAINS_FREQUENCIES = [100, 120];
+// Relative brightness modulation above which a source counts as flickering
+const MAX_MAINS_MODULATION = 0.1;
+const MAX_FRAME_VARIATION = 0.15;
+
+export function createFlickerFilter(): FlickerFilterState {
+  return { tracks: [] };
+}
+
+function sampleBrightness(imageData: ImageData, x: number, y: number): number {
+  const { data, width, height } = imageData;
+  const cx = Math.round(x);
+  const cy = Math.round(y);
+  let sum = 0;
+  let count = 0;
+
+  for (let dy = -SAMPLE_RADIUS; dy <= SAMPLE_RADIUS; dy++) {
+    for (let dx = -SAMPLE_RADIUS; dx <= SAMPLE_RADIUS; dx++) {
+      const nx = cx + dx;
+      const ny = cy + dy;
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+
+      const i = (ny * width + nx) * 4;
+      sum += (data[i] + data[i + 1] + data[i + 2]) / 3;
+      count++;
+    }
+  }
+
+  return count > 0 ? sum / count : 0;
+}
+
+// Amplitude of the given frequency relative to the mean brightness. Samples
+// are taken at their real timestamps, so flicker aliased by the camera frame
+// rate is still measured at its true frequency.
+function relativeAmplitude(samples: BrightnessSample[], mean: number, frequency: number): number {
+  let re = 0;
+  let im = 0;
+  for (const s of samples) {
+    const phase = (2 * Math.PI * frequency * s.time) / 1000;
+    re += (s.brightness - mean) * Math.cos(phase);
+    im -= (s.brightness - mean) * Math.sin(phase);
+  }
+  return (2 * Math.hypot(re, im)) / samples.length / mean;
+}
+
+function isFlickering(samples: BrightnessSample[]): boolean {
+  if (samples.length < PERSIST_FRAMES) return false;
+
+  const mean = samples.reduce((sum, s) => sum + s.brightness, 0) / samples.length;
+  if (mean <= 0) return false;
+
+  if (MAINS_FREQUENCIES.some(f => relativeAmplitude(samples, mean, f) > MAX_MAINS_MODULATION)) {
+    return true;
+  }
+
+  // Timestamp jitter smears the spectrum, so also catch strong frame-to-frame pumping
+  let variation = 0;
+  for (let i = 1; i < samples.length; i++) {
+    variation += Math.abs(samples[i].brightness - samples[i - 1].brightness);
+  }
+  return variation / (samples.length - 1) / mean > MAX_FRAME_VARIATION;
+}
+
+// Matches this frame's sources to the tracks from previous frames and returns,
+// for every point, whether it is still new, flickers, or can be trusted.
+export function updateFlickerFilter(
+  state: FlickerFilterState,
+  imageData: ImageData,
+  points: Array<{ x: number; y: number }>,
+  time: number
+): FlickerVerdict[] {
+  const unmatched = new Set(state.tracks);
+  const tracks: FlickerTrack[] = [];
+
+  const verdicts = points.map((point): FlickerVerdict => {
+    let track: FlickerTrack | null = null;
+    let bestDistance = MATCH_DISTANCE;
+    for (const candidate of unmatched) {
+      const distance = Math.hypot(candidate.x - point.x, candidate.y - point.y);
+      if (distance <= bestDistance) {
+        bestDistance = distance;
+        track = candidate;
+      }
+    }
+
+    if (track) {
+      unmatched.delete(track);
+    } else {
+      track = { x: point.x, y: point.y, age: 0, samples: [] };
+    }
+
+    track.x = point.x;
+    track.y = point.y;
+    track.age++;
+    track.samples.push({ time, brightness: sampleBrightness(imageData, point.x, point.y) });
+    if (track.samples.length > HISTORY_LENGTH) {
+      track.samples.shift();
+    }
+    tracks.push(track);
+
+    if (track.age < PERSIST_FRAMES) return 'settling';
+    return isFlickering(track.samples) ? 'flickering' : 'steady';
+  });
+
+  // Sources missing from this frame start over
+  state.tracks = tracks;
+  return verdicts;
+}
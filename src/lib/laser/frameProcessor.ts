@@ -0,0 +1,131 @@
+import { BackgroundModel } from '@/lib/laser/background';
+import { applyFlickerVerdicts, detectLaser, DetectionResult, DetectorSettings } from '@/lib/laser/detector';
+import { applyGainMap, gainMapFor, FlatField, GainMap } from '@/lib/laser/flatField';
+import { createFlickerFilter, updateFlickerFilter, FlickerFilterState } from '@/lib/laser/flickerFilter';
+import { LineFit } from '@/lib/laser/lineFit';
+import { createPulseBuffer, PulseBuffer } from '@/lib/laser/pulse';
+import { createRegistration, registerFrame, resetRegistration, CameraMotion, RegistrationState } from '@/lib/laser/registration';
+import { createDenoiseState, denoiseFrame, DenoiseState } from '@/lib/laser/temporalDenoise';
+
+// Everything the per-frame pipeline keeps between frames. Lives in the
+// detector worker, or in the hook when frames are processed on the main thread.
+export interface FrameProcessor {
+  pulseBuffer: PulseBuffer;
+  flickerFilter: FlickerFilterState;
+  background: BackgroundModel | null; // captured by calibration
+  flatField: FlatField | null; // vignetting correction of the current camera
+  gainMap: GainMap | null; // flatField at the current frame size
+  denoise: DenoiseState;
+  registration: RegistrationState;
+}
+
+export function createFrameProcessor(): FrameProcessor {
+  return {
+    pulseBuffer: createPulseBuffer(),
+    flickerFilter: createFlickerFilter(),
+    background: null,
+    flatField: null,
+    gainMap: null,
+    denoise: createDenoiseState(),
+    registration: createRegistration(),
+  };
+}
+
+// The video frame a detection belongs to
+export interface FrameInfo {
+  time: number; // capture time, ms on the main thread's performance.now() clock
+  number: number;
+}
+
+// Messages to the detector worker
+export type WorkerRequest =
+  | { type: 'settings'; settings: DetectorSettings }
+  | { type: 'background'; background: BackgroundModel | null }
+  | { type: 'flatField'; flatField: FlatField | null }
+  | { type: 'frame'; bitmap: ImageBitmap; frame: FrameInfo; scale: number };
+
+// Messages from the detector worker, one per frame, in video pixels
+export type WorkerResponse = { type: 'detection'; detection: DetectionResult };
+
+// Draws a camera frame the way every detection step expects it, mirrored
+// when the view is, scaled to the canvas
+export function drawFrame(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: CanvasImageSource,
+  mirror: boolean
+) {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  if (mirror) {
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(source, 0, 0, width, height);
+  ctx.restore();
+}
+
+// Evens out the processor's lens vignetting in place. Frames captured outside
+// processImage go through this too, so they match what detection sees.
+export function applyFlatField(processor: FrameProcessor, imageData: ImageData, mirror: boolean) {
+  if (!processor.flatField) return;
+  processor.gainMap = gainMapFor(processor.gainMap, processor.flatField, imageData.width, imageData.height, mirror);
+  applyGainMap(processor.gainMap, imageData);
+}
+
+// Measures a line's offset from where the frame center was when stabilization
+// started, so the reading stays put while the phone shakes
+function wallOffset(line: LineFit, motion: CameraMotion): LineFit {
+  return { ...line, offset: line.offset - (motion.x * -line.dirY + motion.y * line.dirX) };
+}
+
+// Detection plus the flicker filter, everything that needs the pixels. The
+// result is stamped with the frame it came from.
+export function processImage(
+  processor: FrameProcessor,
+  imageData: ImageData,
+  settings: DetectorSettings,
+  frame: FrameInfo
+): DetectionResult {
+  // Vignetting first, so every later stage sees an evenly lit frame
+  applyFlatField(processor, imageData, settings.mirror);
+
+  // Registered before denoising; a new stabilization session starts from where the camera is now
+  if (!settings.stabilization) resetRegistration(processor.registration);
+  const motion = settings.stabilization ? registerFrame(processor.registration, imageData) : null;
+
+  // Pulse detection works on the change between raw frames, which averaging would hide
+  const denoise = settings.denoiseFrames > 1 && !settings.pulseMode;
+  // An average left over from before denoising was switched off is stale
+  if (!denoise) processor.denoise.frames = 0;
+  const denoised = denoise
+    ? denoiseFrame(processor.denoise, imageData, settings.denoiseFrames)
+    : imageData;
+
+  let detection = detectLaser(denoised, settings, {
+    pulseBuffer: processor.pulseBuffer,
+    background: processor.background,
+  });
+
+  // A pulsing beam is flicker by design, so the filter would reject it
+  if (settings.flickerFilter && !settings.pulseMode) {
+    const sources = detection.beams.length > 0
+      ? detection.beams
+      : detection.found ? [detection] : [];
+    const verdicts = updateFlickerFilter(processor.flickerFilter, imageData, sources, frame.time);
+    detection = applyFlickerVerdicts(detection, verdicts);
+  }
+
+  if (motion) {
+    detection = {
+      ...detection,
+      line: detection.line && wallOffset(detection.line, motion),
+      cross: detection.cross && {
+        ...detection.cross,
+        horizontal: wallOffset(detection.cross.horizontal, motion),
+        vertical: wallOffset(detection.cross.vertical, motion),
+      },
+    };
+  }
+
+  return { ...detection, motion, captureTime: frame.time, frameNumber: frame.number };
+}
@@ -0,0 +1,56 @@
+// Reads drawn frames back into one reused ImageData per frame size.
+// getImageData allocates a fresh buffer on every call, a few MB per frame
+// for the garbage collector to chase; WebGL readPixels fills an existing
+// one. Where WebGL2 is missing the reader falls back to getImageData, and
+// only then does the 2D context need willReadFrequently.
+export interface FrameReader {
+  gl: WebGL2RenderingContext | null;
+  texture: WebGLTexture | null;
+  imageData: ImageData | null; // overwritten by every read
+  pixels: Uint8Array | null; // view of imageData's buffer for readPixels
+}
+
+export function createFrameReader(): FrameReader {
+  const glCanvas = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1) : null;
+  const gl = glCanvas?.getContext('webgl2') ?? null;
+  if (!gl) return { gl: null, texture: null, imageData: null, pixels: null };
+
+  // The frame is copied into a texture and read back through a framebuffer, no drawing involved
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.NONE);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, gl.createFramebuffer());
+
+  return { gl, texture, imageData: null, pixels: null };
+}
+
+// The pixels of everything drawn into `canvas`, in a buffer the next read reuses
+export function readFrame(
+  reader: FrameReader,
+  canvas: OffscreenCanvas | HTMLCanvasElement,
+  ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D
+): ImageData {
+  const { gl } = reader;
+  const { width, height } = canvas;
+  if (!gl) return ctx.getImageData(0, 0, width, height);
+
+  if (!reader.imageData || reader.imageData.width !== width || reader.imageData.height !== height) {
+    reader.imageData = new ImageData(width, height);
+    reader.pixels = new Uint8Array(reader.imageData.data.buffer);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, canvas);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, reader.texture, 0);
+
+    // A driver that cannot read this texture back leaves the reader on getImageData
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      reader.gl = null;
+      return ctx.getImageData(0, 0, width, height);
+    }
+  } else {
+    gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, gl.RGBA, gl.UNSIGNED_BYTE, canvas);
+  }
+
+  gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, reader.pixels);
+  return reader.imageData;
+}
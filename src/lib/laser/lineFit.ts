@@ -0,0 +1,213 @@
+export interface WeightedPoint {
+  x: number;
+  y: number;
+  weight: number;
+}
+
+export interface LineFit {
+  angle: number; // degrees, 0 = horizontal, positive = clockwise on screen
+  offset: number; // signed perpendicular distance from the frame center, px
+  residual: number; // RMS distance of the inliers from the line, px
+  x: number; // point on the line closest to the frame center
+  y: number;
+  dirX: number; // unit direction vector of the line
+  dirY: number;
+  length: number; // extent of the inliers along the line, px
+  inliers: number;
+}
+
+interface PrincipalAxis {
+  meanX: number;
+  meanY: number;
+  dirX: number;
+  dirY: number;
+}
+
+// Weighted total least squares: the line direction is the major eigenvector
+// of the weighted covariance matrix of the points.
+function principalAxis(points: WeightedPoint[]): PrincipalAxis | null {
+  let sumW = 0, sumX = 0, sumY = 0;
+  for (const p of points) {
+    sumW += p.weight;
+    sumX += p.x * p.weight;
+    sumY += p.y * p.weight;
+  }
+  if (sumW <= 0) return null;
+
+  const meanX = sumX / sumW;
+  const meanY = sumY / sumW;
+
+  let sxx = 0, syy = 0, sxy = 0;
+  for (const p of points) {
+    const dx = p.x - meanX;
+    const dy = p.y - meanY;
+    sxx += dx * dx * p.weight;
+    syy += dy * dy * p.weight;
+    sxy += dx * dy * p.weight;
+  }
+
+  const theta = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  return { meanX, meanY, dirX: Math.cos(theta), dirY: Math.sin(theta) };
+}
+
+function distanceToAxis(p: WeightedPoint, axis: PrincipalAxis): number {
+  // Normal is the direction rotated by 90°
+  return (p.x - axis.meanX) * -axis.dirY + (p.y - axis.meanY) * axis.dirX;
+}
+
+function rmsDistance(points: WeightedPoint[], axis: PrincipalAxis): number {
+  let sum = 0, sumW = 0;
+  for (const p of points) {
+    const d = distanceToAxis(p, axis);
+    sum += d * d * p.weight;
+    sumW += p.weight;
+  }
+  return sumW > 0 ? Math.sqrt(sum / sumW) : 0;
+}
+
+export function fitLine(
+  points: WeightedPoint[],
+  width: number,
+  height: number,
+  minPoints = 8
+): LineFit | null {
+  if (points.length < minPoints) return null;
+
+  let axis = principalAxis(points);
+  if (!axis) return null;
+
+  // Drop points far from the first estimate (reflections, stray spots) and refit
+  const cutoff = Math.max(3, rmsDistance(points, axis) * 2.5);
+  const inliers = points.filter(p => Math.abs(distanceToAxis(p, axis)) <= cutoff);
+  if (inliers.length < minPoints) return null;
+
+  axis = principalAxis(inliers);
+  if (!axis) return null;
+
+  let { dirX, dirY } = axis;
+  // Keep the direction pointing right (or down for vertical lines)
+  if (dirX < 0 || (dirX === 0 && dirY < 0)) {
+    dirX = -dirX;
+    dirY = -dirY;
+  }
+
+  let minT = Infinity, maxT = -Infinity;
+  for (const p of inliers) {
+    const t = (p.x - axis.meanX) * dirX + (p.y - axis.meanY) * dirY;
+    if (t < minT) minT = t;
+    if (t > maxT) maxT = t;
+  }
+
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const t = (centerX - axis.meanX) * dirX + (centerY - axis.meanY) * dirY;
+  const x = axis.meanX + t * dirX;
+  const y = axis.meanY + t * dirY;
+  // Positive when the line passes below (or to the left of a vertical line) the center
+  const offset = (x - centerX) * -dirY + (y - centerY) * dirX;
+
+  return {
+    angle: (Math.atan2(dirY, dirX) * 180) / Math.PI,
+    offset,
+    residual: rmsDistance(inliers, { ...axis, dirX, dirY }),
+    x,
+    y,
+    dirX,
+    dirY,
+    length: maxT - minT,
+    inliers: inliers.length,
+  };
+}
+
+export interface CrossFit {
+  horizontal: LineFit; // the more horizontal of the two lines
+  vertical: LineFit;
+  x: number; // intersection point
+  y: number;
+  angleBetween: number; // degrees, 0-90
+}
+
+const RANSAC_ITERATIONS = 80;
+const RANSAC_SAMPLE_LIMIT = 2000;
+
+// Finds the dominant line in a point set that may contain several lines.
+// Returns the points that belong to it so the caller can look for the next one.
+function ransacLine(
+  points: WeightedPoint[],
+  tolerance: number,
+  minPoints: number
+): WeightedPoint[] | null {
+  if (points.length < minPoints) return null;
+
+  const stride = Math.max(1, Math.floor(points.length / RANSAC_SAMPLE_LIMIT));
+  let bestScore = 0;
+  let best: PrincipalAxis | null = null;
+
+  for (let iter = 0; iter < RANSAC_ITERATIONS; iter++) {
+    const a = points[Math.floor(Math.random() * points.length)];
+    const b = points[Math.floor(Math.random() * points.length)];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (len < tolerance * 2) continue;
+
+    const axis = { meanX: a.x, meanY: a.y, dirX: (b.x - a.x) / len, dirY: (b.y - a.y) / len };
+    let score = 0;
+    for (let i = 0; i < points.length; i += stride) {
+      if (Math.abs(distanceToAxis(points[i], axis)) <= tolerance) {
+        score += points[i].weight;
+      }
+    }
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = axis;
+    }
+  }
+
+  if (!best) return null;
+  const inliers = points.filter(p => Math.abs(distanceToAxis(p, best)) <= tolerance);
+  return inliers.length >= minPoints ? inliers : null;
+}
+
+export function fitCross(
+  points: WeightedPoint[],
+  width: number,
+  height: number,
+  minPoints = 8
+): CrossFit | null {
+  const tolerance = Math.max(4, Math.min(width, height) * 0.01);
+
+  const firstPoints = ransacLine(points, tolerance, minPoints);
+  if (!firstPoints) return null;
+  const first = fitLine(firstPoints, width, height, minPoints);
+  if (!first) return null;
+
+  // The second line is searched among what the first one did not explain,
+  // keeping a wider gap so its halo is not picked up again
+  const firstAxis = { meanX: first.x, meanY: first.y, dirX: first.dirX, dirY: first.dirY };
+  const remaining = points.filter(p => Math.abs(distanceToAxis(p, firstAxis)) > tolerance * 2);
+  const secondPoints = ransacLine(remaining, tolerance, minPoints);
+  if (!secondPoints) return null;
+  const second = fitLine(secondPoints, width, height, minPoints);
+  if (!second) return null;
+
+  const cos = Math.abs(first.dirX * second.dirX + first.dirY * second.dirY);
+  const angleBetween = (Math.acos(Math.min(1, cos)) * 180) / Math.PI;
+  // Nearly parallel lines are two beams, not a cross
+  if (angleBetween < 20) return null;
+
+  // Solve first.p + t * first.dir = second.p + s * second.dir
+  const denom = first.dirX * second.dirY - first.dirY * second.dirX;
+  const t = ((second.x - first.x) * second.dirY - (second.y - first.y) * second.dirX) / denom;
+
+  const [horizontal, vertical] = Math.abs(first.angle) <= Math.abs(second.angle)
+    ? [first, second]
+    : [second, first];
+
+  return {
+    horizontal,
+    vertical,
+    x: first.x + t * first.dirX,
+    y: first.y + t * first.dirY,
+    angleBetween,
+  };
+}
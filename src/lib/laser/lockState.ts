@@ -0,0 +1,45 @@
+// Found/lost status with hysteresis. A beam has to be stronger to be picked
+// up than to be kept, and either change only happens after it has held for
+// a while; in between the status is 'searching'.
+
+export type LockStatus = 'found' | 'searching' | 'lost';
+
+export interface LockSettings {
+  enter: number; // confidence a beam needs to be picked up, 0-100
+  exit: number; // confidence below which a held beam starts to count as lost
+  holdTime: number; // ms a change has to persist
+}
+
+export interface LockState {
+  locked: boolean; // last settled status, found or lost
+  changeSince: number | null; // ms, when the pending change started
+}
+
+export function createLockState(): LockState {
+  return { locked: false, changeSince: null };
+}
+
+export function updateLock(
+  state: LockState,
+  beam: { found: boolean; predicted: boolean; confidence: number },
+  settings: LockSettings,
+  time: number
+): LockStatus {
+  // A position bridged by the tracker is not a sighting
+  const measured = beam.found && !beam.predicted;
+  const wantsLock = measured && beam.confidence >= (state.locked ? settings.exit : settings.enter);
+
+  if (wantsLock === state.locked) {
+    state.changeSince = null;
+  } else if (state.changeSince === null) {
+    state.changeSince = time;
+  }
+
+  if (state.changeSince !== null && time - state.changeSince >= settings.holdTime) {
+    state.locked = wantsLock;
+    state.changeSince = null;
+  }
+
+  if (state.changeSince !== null) return 'searching';
+  return state.locked ? 'found' : 'lost';
+}
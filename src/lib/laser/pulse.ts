@@ -0,0 +1,107 @@
+import { Candidate, ScanBounds } from '@/lib/laser/beams';
+import { hueChannel, ColorWindow } from '@/lib/laser/color';
+
+export interface PulseBuffer {
+  width: number; // sampled grid size
+  height: number;
+  step: number;
+  frames: Uint8Array[]; // RGB per grid cell
+  next: number;
+  count: number;
+}
+
+const PULSE_FRAMES = 8;
+// Fewer frames than this cannot tell a pulsing pixel from sensor noise
+const MIN_PULSE_FRAMES = 3;
+
+export function createPulseBuffer(): PulseBuffer {
+  return { width: 0, height: 0, step: 0, frames: [], next: 0, count: 0 };
+}
+
+function resetPulseBuffer(buffer: PulseBuffer, width: number, height: number, step: number) {
+  buffer.width = width;
+  buffer.height = height;
+  buffer.step = step;
+  buffer.frames = Array.from({ length: PULSE_FRAMES }, () => new Uint8Array(width * height * 3));
+  buffer.next = 0;
+  buffer.count = 0;
+}
+
+// Adds the frame to the rolling buffer and returns the pixels that switch on
+// and off across it. Candidate r/g/b hold the temporal swing of each channel
+// rather than the pixel color. Each color window is watched on the channel
+// closest to its hue, and the score is the largest swing among them.
+// The whole frame is buffered, only `bounds` is searched.
+export function collectPulseCandidates(
+  buffer: PulseBuffer,
+  imageData: ImageData,
+  step: number,
+  windows: ColorWindow[],
+  threshold: number,
+  bounds: ScanBounds
+): Candidate[] {
+  const { data, width, height } = imageData;
+  const gridWidth = Math.ceil(width / step);
+  const gridHeight = Math.ceil(height / step);
+
+  if (buffer.width !== gridWidth || buffer.height !== gridHeight || buffer.step !== step) {
+    resetPulseBuffer(buffer, gridWidth, gridHeight, step);
+  }
+
+  const frame = buffer.frames[buffer.next];
+  for (let gy = 0; gy < gridHeight; gy++) {
+    for (let gx = 0; gx < gridWidth; gx++) {
+      const i = (gy * step * width + gx * step) * 4;
+      const o = (gy * gridWidth + gx) * 3;
+      frame[o] = data[i];
+      frame[o + 1] = data[i + 1];
+      frame[o + 2] = data[i + 2];
+    }
+  }
+  buffer.next = (buffer.next + 1) % PULSE_FRAMES;
+  buffer.count = Math.min(buffer.count + 1, PULSE_FRAMES);
+
+  if (buffer.count < MIN_PULSE_FRAMES) return [];
+
+  const frames = buffer.frames.slice(0, buffer.count);
+  const channels = windows.map(w => hueChannel(w.window.center));
+  const candidates: Candidate[] = [];
+  const swings = [0, 0, 0];
+
+  for (let gy = Math.ceil(bounds.y0 / step); gy * step < bounds.y1; gy++) {
+    for (let gx = Math.ceil(bounds.x0 / step); gx * step < bounds.x1; gx++) {
+      const index = gy * gridWidth + gx;
+      for (let channel = 0; channel < 3; channel++) {
+        let min = 255, max = 0;
+        for (const f of frames) {
+          const v = f[index * 3 + channel];
+          if (v < min) min = v;
+          if (v > max) max = v;
+        }
+        swings[channel] = max - min;
+      }
+
+      let score = 0;
+      let best = -1;
+      channels.forEach((channel, w) => {
+        if (swings[channel] > score) {
+          score = swings[channel];
+          best = w;
+        }
+      });
+      if (best < 0 || score <= threshold) continue;
+
+      candidates.push({
+        x: gx * step,
+        y: gy * step,
+        r: swings[0],
+        g: swings[1],
+        b: swings[2],
+        score,
+        color: windows[best].color,
+      });
+    }
+  }
+
+  return candidates;
+}
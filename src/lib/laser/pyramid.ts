@@ -0,0 +1,51 @@
+import { ScanBounds } from '@/lib/laser/beams';
+
+// A downscaled level of the frame for the coarse search. Each cell keeps the
+// brightest pixel of its block instead of the block average, so a beam only a
+// couple of pixels wide survives the downscale at full brightness.
+export interface PyramidLevel {
+  factor: number; // block size, px
+  width: number; // cells
+  height: number;
+  source: Int32Array; // full resolution pixel index of each cell's brightest pixel, -1 outside the bounds
+}
+
+// Blocks are read on a `sampleStep` grid, the density the full-frame search used
+export function buildPyramidLevel(
+  imageData: ImageData,
+  factor: number,
+  bounds: ScanBounds,
+  sampleStep = 2
+): PyramidLevel {
+  const { data, width: frameWidth } = imageData;
+  const width = Math.ceil(imageData.width / factor);
+  const height = Math.ceil(imageData.height / factor);
+  const source = new Int32Array(width * height).fill(-1);
+
+  for (let gy = Math.floor(bounds.y0 / factor); gy * factor < bounds.y1; gy++) {
+    const y0 = Math.max(bounds.y0, gy * factor);
+    const y1 = Math.min(bounds.y1, (gy + 1) * factor);
+
+    for (let gx = Math.floor(bounds.x0 / factor); gx * factor < bounds.x1; gx++) {
+      const x0 = Math.max(bounds.x0, gx * factor);
+      const x1 = Math.min(bounds.x1, (gx + 1) * factor);
+
+      let best = -1;
+      let bestValue = -1;
+      for (let y = y0; y < y1; y += sampleStep) {
+        for (let x = x0; x < x1; x += sampleStep) {
+          const pixel = y * frameWidth + x;
+          const i = pixel * 4;
+          const value = Math.max(data[i], data[i + 1], data[i + 2]);
+          if (value > bestValue) {
+            bestValue = value;
+            best = pixel;
+          }
+        }
+      }
+      source[gy * width + gx] = best;
+    }
+  }
+
+  return { factor, width, height, source };
+}
@@ -0,0 +1,80 @@
+export type QualityPreset = 'battery' | 'balanced' | 'precision';
+
+export interface QualitySettings {
+  targetFps: number; // processed frames per second to hold
+  maxFps: number | null; // frames beyond this rate are skipped to save power
+  minScale: number; // analysis resolution bounds, fraction of the video size
+  maxScale: number;
+}
+
+export const QUALITY_PRESETS: Record<QualityPreset, QualitySettings> = {
+  battery: { targetFps: 12, maxFps: 15, minScale: 0.35, maxScale: 0.5 },
+  balanced: { targetFps: 20, maxFps: null, minScale: 0.5, maxScale: 1 },
+  precision: { targetFps: 8, maxFps: null, minScale: 0.7, maxScale: 1 },
+};
+
+export interface QualityState {
+  preset: QualityPreset;
+  scale: number;
+  frameSkip: number; // camera frames skipped after every processed one
+  lastChange: number; // ms
+}
+
+const SCALE_STEPS = [0.35, 0.5, 0.7, 1];
+const MAX_FRAME_SKIP = 2;
+// The FPS average needs this long to reflect a change
+const SETTLE_TIME = 2000;
+
+export function createQualityState(preset: QualityPreset): QualityState {
+  return { preset, scale: QUALITY_PRESETS[preset].maxScale, frameSkip: 0, lastChange: 0 };
+}
+
+// Steps the analysis resolution and frame skipping one notch towards the
+// preset's target, or the camera's own rate when that is lower. `fps` counts
+// analyzed frames and `cameraFps` the frames the camera delivered. Falling
+// below the target first costs resolution, then frames; headroom is judged by
+// how long one frame takes, which skipping does not hide. Returns whether
+// anything changed.
+export function updateQuality(
+  state: QualityState,
+  fps: number,
+  cameraFps: number,
+  frameTime: number,
+  time: number
+): boolean {
+  if (time - state.lastChange < SETTLE_TIME) return false;
+
+  const { targetFps, minScale, maxScale } = QUALITY_PRESETS[state.preset];
+  const steps = SCALE_STEPS.filter(scale => scale >= minScale && scale <= maxScale);
+  const index = steps.indexOf(state.scale);
+  // A camera slower than the target is not something the pipeline can fix
+  const target = Math.min(targetFps, cameraFps);
+  // The rate the pipeline keeps up with, before frames were skipped on purpose
+  const rate = fps * (state.frameSkip + 1);
+
+  // Skipped frames come back first, and never stay skipped from a slow camera
+  if (state.frameSkip > 0 && (cameraFps < targetFps || frameTime <= 1000 / targetFps / 1.5)) {
+    state.frameSkip--;
+    state.lastChange = time;
+    return true;
+  }
+
+  if (rate < target * 0.85) {
+    if (index > 0) {
+      state.scale = steps[index - 1];
+    } else if (state.frameSkip < MAX_FRAME_SKIP && cameraFps >= targetFps) {
+      state.frameSkip++;
+    } else {
+      return false;
+    }
+    state.lastChange = time;
+    return true;
+  }
+
+  // Work grows with the pixel count, so predict the next step's frame time from it
+  const next = steps[index + 1];
+  if (next === undefined || frameTime * (next / state.scale) ** 2 > 1000 / targetFps * 0.8) return false;
+  state.scale = next;
+  state.lastChange = time;
+  return true;
+}
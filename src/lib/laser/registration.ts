@@ -0,0 +1,210 @@
+// Global shift between consecutive frames, from the texture of the scene.
+// Summed up it tells how far the wall has moved on the sensor since
+// stabilization started, so positions can be reported relative to the wall.
+
+export interface CameraMotion {
+  x: number; // how far the scene has moved in the image since the reference frame, px
+  y: number;
+  shift: { x: number; y: number }; // the part of it since the previous frame
+  textured: boolean; // false when the scene is too plain to register against
+}
+
+// Block-averaged brightness of a frame
+interface Thumbnail {
+  values: Float32Array;
+  columns: number;
+  rows: number;
+  block: number; // frame px per cell
+}
+
+export interface RegistrationState {
+  coarse: Thumbnail | null; // of the previous frame, searched exhaustively
+  fine: Thumbnail | null; // of the previous frame, refines the coarse shift
+  width: number; // of the frames registered so far
+  height: number;
+  x: number;
+  y: number;
+}
+
+// Thumbnail widths of the search and of the refinement, cells across
+const COARSE_WIDTH = 80;
+const FINE_WIDTH = 320;
+// Largest shift between two frames, coarse cells
+const MAX_SHIFT = 6;
+// Brightness difference past which a cell counts as changed content, like
+// the beam itself, instead of misalignment
+const MAX_CELL_DIFFERENCE = 40;
+const REFINE_ITERATIONS = 3;
+// How much better the best shift has to match than its neighbours for the
+// scene to count as textured
+const MIN_CONTRAST = 1.5;
+
+export function createRegistration(): RegistrationState {
+  return { coarse: null, fine: null, width: 0, height: 0, x: 0, y: 0 };
+}
+
+export function resetRegistration(state: RegistrationState) {
+  state.coarse = null;
+  state.fine = null;
+  state.x = 0;
+  state.y = 0;
+}
+
+// Block-averaged brightness with the mean removed, so exposure changes do not count as motion
+function buildThumbnail(imageData: ImageData, cellsAcross: number): Thumbnail {
+  const { data, width, height } = imageData;
+  const block = Math.max(1, Math.round(width / cellsAcross));
+  const columns = Math.floor(width / block);
+  const rows = Math.floor(height / block);
+  const values = new Float32Array(columns * rows);
+  const step = Math.max(1, block >> 2);
+  let total = 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let sum = 0, count = 0;
+      for (let y = row * block; y < (row + 1) * block; y += step) {
+        for (let x = column * block; x < (column + 1) * block; x += step) {
+          const i = (y * width + x) * 4;
+          sum += data[i] + data[i + 1] + data[i + 2];
+          count++;
+        }
+      }
+      const value = sum / count / 3;
+      values[row * columns + column] = value;
+      total += value;
+    }
+  }
+
+  const mean = total / values.length;
+  for (let i = 0; i < values.length; i++) values[i] -= mean;
+  return { values, columns, rows, block };
+}
+
+// Mean squared clipped difference of the overlapping cells with `current` moved back by (dx, dy)
+function matchCost(previous: Thumbnail, current: Thumbnail, dx: number, dy: number): number {
+  const { columns, rows } = current;
+  let sum = 0, count = 0;
+  for (let row = Math.max(0, dy); row < Math.min(rows, rows + dy); row++) {
+    for (let column = Math.max(0, dx); column < Math.min(columns, columns + dx); column++) {
+      const difference = Math.abs(current.values[row * columns + column] - previous.values[(row - dy) * columns + column - dx]);
+      sum += Math.min(difference, MAX_CELL_DIFFERENCE) ** 2;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : Infinity;
+}
+
+// Bilinear sample, null outside the thumbnail
+function sample(thumbnail: Thumbnail, x: number, y: number): number | null {
+  const { values, columns, rows } = thumbnail;
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  if (x0 < 0 || y0 < 0 || x0 + 1 >= columns || y0 + 1 >= rows) return null;
+
+  const fx = x - x0;
+  const fy = y - y0;
+  const i = y0 * columns + x0;
+  const top = values[i] + (values[i + 1] - values[i]) * fx;
+  const bottom = values[i + columns] + (values[i + columns + 1] - values[i + columns]) * fx;
+  return top + (bottom - top) * fy;
+}
+
+// Lucas-Kanade refinement of a shift between two fine thumbnails, in cells
+function refineShift(previous: Thumbnail, current: Thumbnail, start: { x: number; y: number }) {
+  const { values, columns, rows } = previous;
+  let { x: dx, y: dy } = start;
+
+  for (let iteration = 0; iteration < REFINE_ITERATIONS; iteration++) {
+    let sxx = 0, sxy = 0, syy = 0, sxt = 0, syt = 0;
+    for (let row = 1; row < rows - 1; row += 2) {
+      for (let column = 1; column < columns - 1; column += 2) {
+        const moved = sample(current, column + dx, row + dy);
+        if (moved === null) continue;
+
+        const i = row * columns + column;
+        const difference = moved - values[i];
+        if (Math.abs(difference) > MAX_CELL_DIFFERENCE) continue;
+
+        const gx = (values[i + 1] - values[i - 1]) / 2;
+        const gy = (values[i + columns] - values[i - columns]) / 2;
+        sxx += gx * gx;
+        sxy += gx * gy;
+        syy += gy * gy;
+        sxt += gx * difference;
+        syt += gy * difference;
+      }
+    }
+
+    const determinant = sxx * syy - sxy * sxy;
+    if (determinant <= 0) break;
+    const stepX = -(syy * sxt - sxy * syt) / determinant;
+    const stepY = -(sxx * syt - sxy * sxt) / determinant;
+    dx += stepX;
+    dy += stepY;
+    if (Math.abs(stepX) < 0.01 && Math.abs(stepY) < 0.01) break;
+  }
+
+  return { x: dx, y: dy };
+}
+
+// Registers the frame against the previous one and adds the shift to the total
+export function registerFrame(state: RegistrationState, imageData: ImageData): CameraMotion {
+  const { width, height } = imageData;
+
+  if (state.width !== width || state.height !== height) {
+    // The analysis resolution changed; keep the total in the new frame's pixels
+    if (state.width > 0) {
+      state.x *= width / state.width;
+      state.y *= width / state.width;
+    }
+    state.width = width;
+    state.height = height;
+    state.coarse = null;
+    state.fine = null;
+  }
+
+  const coarse = buildThumbnail(imageData, COARSE_WIDTH);
+  const fine = buildThumbnail(imageData, FINE_WIDTH);
+  const previous = { coarse: state.coarse, fine: state.fine };
+  state.coarse = coarse;
+  state.fine = fine;
+
+  if (!previous.coarse || !previous.fine) {
+    return { x: state.x, y: state.y, shift: { x: 0, y: 0 }, textured: true };
+  }
+
+  const size = 2 * MAX_SHIFT + 1;
+  const costs = new Float32Array(size * size);
+  let best = 0;
+  for (let dy = -MAX_SHIFT; dy <= MAX_SHIFT; dy++) {
+    for (let dx = -MAX_SHIFT; dx <= MAX_SHIFT; dx++) {
+      const index = (dy + MAX_SHIFT) * size + dx + MAX_SHIFT;
+      costs[index] = matchCost(previous.coarse, coarse, dx, dy);
+      if (costs[index] < costs[best]) best = index;
+    }
+  }
+
+  const bestX = best % size;
+  const bestY = (best - bestX) / size;
+  const cost = (x: number, y: number) =>
+    x >= 0 && x < size && y >= 0 && y < size ? costs[y * size + x] : costs[best];
+
+  // A plain wall matches about as well at every shift
+  const neighbours = (cost(bestX - 1, bestY) + cost(bestX + 1, bestY) + cost(bestX, bestY - 1) + cost(bestX, bestY + 1)) / 4;
+  if (neighbours - costs[best] < MIN_CONTRAST) {
+    return { x: state.x, y: state.y, shift: { x: 0, y: 0 }, textured: false };
+  }
+
+  // The search is good to a coarse cell; the refinement takes it below a pixel
+  const ratio = coarse.block / fine.block;
+  const refined = refineShift(previous.fine, fine, {
+    x: (bestX - MAX_SHIFT) * ratio,
+    y: (bestY - MAX_SHIFT) * ratio,
+  });
+  const shift = { x: refined.x * fine.block, y: refined.y * fine.block };
+  state.x += shift.x;
+  state.y += shift.y;
+
+  return { x: state.x, y: state.y, shift, textured: true };
+}
@@ -0,0 +1,72 @@
+import { rgbToHueChroma, HueChroma } from '@/lib/laser/color';
+
+// Close up, a beam clips every channel and its core turns white. Only the
+// ring of halo around the core keeps the laser color, so a white pixel is
+// classified by looking outward for that ring.
+
+export interface CoreHalo extends HueChroma {
+  coreRadius: number; // mean distance to the edge of the white core, px
+}
+
+// Lowest channel at which a pixel counts as clipped white
+export const WHITE_CORE_LEVEL = 230;
+// A white patch wider than this is a lamp, a window or an overexposed wall
+const MAX_CORE_RADIUS = 24;
+// How far past the core edge the halo color is read, px
+const RING_WIDTH = 3;
+// Halo colorfulness a beam needs, relative to its brightness
+const MIN_HALO_SATURATION = 0.15;
+
+const DIRECTIONS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [Math.SQRT1_2, Math.SQRT1_2], [-Math.SQRT1_2, Math.SQRT1_2],
+  [Math.SQRT1_2, -Math.SQRT1_2], [-Math.SQRT1_2, -Math.SQRT1_2],
+];
+
+export function isWhiteCore(r: number, g: number, b: number): boolean {
+  return Math.min(r, g, b) >= WHITE_CORE_LEVEL;
+}
+
+// Walks out of the white core at (x, y) in eight directions and averages the
+// pixels just past its edge. Returns null when the core never ends or the
+// ring around it is not colored, neither of which is a laser.
+export function haloAround(imageData: ImageData, x: number, y: number): CoreHalo | null {
+  const { data, width, height } = imageData;
+  let sumR = 0, sumG = 0, sumB = 0, count = 0;
+  let radiusSum = 0;
+
+  for (const [dx, dy] of DIRECTIONS) {
+    let edge = 0;
+    for (let t = 1; t <= MAX_CORE_RADIUS; t++) {
+      const nx = Math.round(x + dx * t);
+      const ny = Math.round(y + dy * t);
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) return null;
+
+      const i = (ny * width + nx) * 4;
+      if (!isWhiteCore(data[i], data[i + 1], data[i + 2])) {
+        edge = t;
+        break;
+      }
+    }
+    if (edge === 0) return null;
+    radiusSum += edge;
+
+    for (let t = edge; t < edge + RING_WIDTH; t++) {
+      const nx = Math.round(x + dx * t);
+      const ny = Math.round(y + dy * t);
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) break;
+
+      const i = (ny * width + nx) * 4;
+      sumR += data[i];
+      sumG += data[i + 1];
+      sumB += data[i + 2];
+      count++;
+    }
+  }
+
+  if (count === 0) return null;
+  const ring = rgbToHueChroma(sumR / count, sumG / count, sumB / count);
+  if (ring.chroma < ring.value * MIN_HALO_SATURATION) return null;
+
+  return { ...ring, coreRadius: radiusSum / DIRECTIONS.length };
+}
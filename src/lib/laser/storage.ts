@@ -0,0 +1,22 @@
+// localStorage helpers that never throw: private browsing and full storage
+// just mean nothing is remembered.
+export function loadStored<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveStored<T>(key: string, value: T) {
+  try {
+    if (value === null || value === undefined) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch {
+    // Storage unavailable, keep working without persistence
+  }
+}
@@ -0,0 +1,168 @@
+export interface SubpixelCenter {
+  x: number;
+  y: number;
+  precision: number; // 1-sigma uncertainty of the center, px
+}
+
+interface AxisFit {
+  center: number;
+  sigma: number; // standard error of the center
+}
+
+const SATURATED = 250;
+// Uncertainty assumed for an axis the Gaussian could not be fitted on
+const FALLBACK_SIGMA = 0.5;
+
+// Intensity profile through (cx, cy) along one axis, averaged over a thin band.
+// The dominant channel is used because that is the one the beam clips first.
+function sampleProfile(
+  imageData: ImageData,
+  cx: number,
+  cy: number,
+  radius: number,
+  band: number,
+  horizontal: boolean
+): { positions: number[]; values: number[]; saturated: boolean[] } {
+  const { data, width, height } = imageData;
+  const positions: number[] = [];
+  const values: number[] = [];
+  const saturated: boolean[] = [];
+
+  for (let t = -radius; t <= radius; t++) {
+    const pos = (horizontal ? cx : cy) + t;
+    if (pos < 0 || pos >= (horizontal ? width : height)) continue;
+
+    let sum = 0;
+    let count = 0;
+    let clipped = false;
+    for (let s = -band; s <= band; s++) {
+      const px = horizontal ? pos : cx + s;
+      const py = horizontal ? cy + s : pos;
+      if (px < 0 || px >= width || py < 0 || py >= height) continue;
+
+      const i = (py * width + px) * 4;
+      const value = Math.max(data[i], data[i + 1], data[i + 2]);
+      if (value >= SATURATED) clipped = true;
+      sum += value;
+      count++;
+    }
+
+    if (count === 0) continue;
+    positions.push(pos);
+    values.push(sum / count);
+    saturated.push(clipped);
+  }
+
+  return { positions, values, saturated };
+}
+
+// Solves the 3x3 system m * v = r, returning null when it is singular
+function solve3(m: number[][], r: number[]): number[] | null {
+  const det = (a: number[][]) =>
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1]) -
+    a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0]) +
+    a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+
+  const d = det(m);
+  if (Math.abs(d) < 1e-12) return null;
+
+  return [0, 1, 2].map(col => det(m.map((row, i) => row.map((v, j) => (j === col ? r[i] : v)))) / d);
+}
+
+// Gaussian fit by weighted least squares on the log of the profile (Guo's method).
+// Clipped samples are left out, so a flat-topped core is reconstructed from its flanks.
+function fitGaussianAxis(positions: number[], values: number[], saturated: boolean[]): AxisFit | null {
+  if (values.length < 5) return null;
+
+  // Background from the edges of the window
+  const edges = [values[0], values[1], values[values.length - 2], values[values.length - 1]].sort((a, b) => a - b);
+  const background = (edges[1] + edges[2]) / 2;
+
+  let peak = 0;
+  for (const v of values) peak = Math.max(peak, v - background);
+  if (peak <= 0) return null;
+
+  const origin = positions[Math.floor(positions.length / 2)];
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    const y = values[i] - background;
+    if (saturated[i] || y < peak * 0.1) continue;
+    xs.push(positions[i] - origin);
+    ys.push(y);
+  }
+  if (xs.length < 3) return null;
+
+  // Normal equations of sum w * (ln y - (a + b x + c x^2))^2 with w = y^2
+  const m = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const r = [0, 0, 0];
+  for (let i = 0; i < xs.length; i++) {
+    const w = ys[i] * ys[i];
+    const basis = [1, xs[i], xs[i] * xs[i]];
+    const ly = Math.log(ys[i]);
+    for (let j = 0; j < 3; j++) {
+      r[j] += w * basis[j] * ly;
+      for (let k = 0; k < 3; k++) {
+        m[j][k] += w * basis[j] * basis[k];
+      }
+    }
+  }
+
+  const coeffs = solve3(m, r);
+  if (!coeffs) return null;
+  const [a, b, c] = coeffs;
+  // Must open downwards to be a peak
+  if (c >= 0) return null;
+
+  const center = -b / (2 * c);
+  if (Math.abs(center) > (positions[positions.length - 1] - positions[0]) / 2) return null;
+
+  // Propagate the residual variance through center = -b / 2c
+  let residual = 0;
+  for (let i = 0; i < xs.length; i++) {
+    const w = ys[i] * ys[i];
+    const e = Math.log(ys[i]) - (a + b * xs[i] + c * xs[i] * xs[i]);
+    residual += w * e * e;
+  }
+  const dof = Math.max(1, xs.length - 3);
+  const variance = residual / dof;
+
+  const columns = [0, 1, 2].map(col => solve3(m, [0, 1, 2].map(i => (i === col ? 1 : 0))));
+  if (columns.some(col => !col)) return null;
+  const cov = (i: number, j: number) => columns[j][i] * variance;
+
+  const dB = -1 / (2 * c);
+  const dC = b / (2 * c * c);
+  const centerVariance = dB * dB * cov(1, 1) + 2 * dB * dC * cov(1, 2) + dC * dC * cov(2, 2);
+  if (!(centerVariance >= 0)) return null;
+
+  return { center: origin + center, sigma: Math.sqrt(centerVariance) };
+}
+
+// Refines a beam center to sub-pixel accuracy by fitting a Gaussian to the
+// intensity profile across the beam in x and in y. Axes that cannot be fitted
+// keep the initial estimate.
+export function fitBeamCenter(
+  imageData: ImageData,
+  x: number,
+  y: number,
+  radius = 16,
+  band = 2
+): SubpixelCenter {
+  const cx = Math.round(x);
+  const cy = Math.round(y);
+
+  const horizontal = sampleProfile(imageData, cx, cy, radius, band, true);
+  const vertical = sampleProfile(imageData, cx, cy, radius, band, false);
+  const fitX = fitGaussianAxis(horizontal.positions, horizontal.values, horizontal.saturated);
+  const fitY = fitGaussianAxis(vertical.positions, vertical.values, vertical.saturated);
+
+  const sigmaX = fitX ? fitX.sigma : FALLBACK_SIGMA;
+  const sigmaY = fitY ? fitY.sigma : FALLBACK_SIGMA;
+
+  return {
+    x: fitX ? fitX.center : x,
+    y: fitY ? fitY.center : y,
+    precision: Math.sqrt(sigmaX * sigmaX + sigmaY * sigmaY),
+  };
+}
@@ -0,0 +1,77 @@
+// Running average of the last few frames, for faint beams in sensor noise.
+// The average restarts when the whole view moves, and single pixels that
+// jump far from it take the new value right away, so a moving beam or a
+// moving phone does not leave a smear.
+
+export interface DenoiseState {
+  width: number;
+  height: number;
+  average: Float32Array; // rgb per pixel
+  output: ImageData | null; // reused for every frame
+  frames: number; // frames in the average since the last reset
+}
+
+// Mean change of the sampled pixels that counts as the view moving
+const MOTION_LEVEL = 10;
+const MOTION_SAMPLE_STEP = 16;
+// A pixel this far from its average is a change in the scene, not noise
+const PIXEL_RESET = 64;
+
+export function createDenoiseState(): DenoiseState {
+  return { width: 0, height: 0, average: new Float32Array(0), output: null, frames: 0 };
+}
+
+// Mean absolute brightness difference between the frame and the average on a sparse grid
+function globalMotion(state: DenoiseState, data: Uint8ClampedArray): number {
+  let sum = 0;
+  let count = 0;
+  for (let y = 0; y < state.height; y += MOTION_SAMPLE_STEP) {
+    for (let x = 0; x < state.width; x += MOTION_SAMPLE_STEP) {
+      const pixel = y * state.width + x;
+      const i = pixel * 4;
+      const j = pixel * 3;
+      const current = data[i] + data[i + 1] + data[i + 2];
+      const average = state.average[j] + state.average[j + 1] + state.average[j + 2];
+      sum += Math.abs(current - average) / 3;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+// Folds the frame into the average over the last `window` frames and returns
+// the averaged frame. The result is overwritten by the next call.
+export function denoiseFrame(state: DenoiseState, imageData: ImageData, window: number): ImageData {
+  const { data, width, height } = imageData;
+
+  if (!state.output || state.width !== width || state.height !== height) {
+    state.width = width;
+    state.height = height;
+    state.average = new Float32Array(width * height * 3);
+    state.output = new ImageData(width, height);
+    state.frames = 0;
+  }
+
+  if (state.frames > 0 && globalMotion(state, data) > MOTION_LEVEL) {
+    state.frames = 0;
+  }
+
+  // A plain mean while the window fills, then an exponential average
+  const alpha = 1 / Math.min(state.frames + 1, window);
+  const fresh = state.frames === 0;
+  const average = state.average;
+  const out = state.output.data;
+
+  for (let pixel = 0, i = 0, j = 0; pixel < width * height; pixel++, i += 4, j += 3) {
+    for (let c = 0; c < 3; c++) {
+      const value = data[i + c];
+      const delta = value - average[j + c];
+      average[j + c] = fresh || Math.abs(delta) > PIXEL_RESET ? value : average[j + c] + alpha * delta;
+      out[i + c] = average[j + c];
+    }
+    out[i + 3] = 255;
+  }
+
+  state.frames++;
+  return state.output;
+}
@@ -0,0 +1,126 @@
+// Constant-velocity Kalman filter over the beam position. Each axis is
+// filtered on its own: the state is position and velocity, the measurement
+// is the detected position.
+
+interface AxisState {
+  position: number; // px
+  velocity: number; // px/s
+  // Covariance of [position, velocity]
+  pp: number;
+  pv: number;
+  vv: number;
+}
+
+export interface TrackerState {
+  x: AxisState | null; // null until the first measurement
+  y: AxisState | null;
+  lastTime: number; // ms, capture time of the last update
+  lastMeasured: number; // ms, capture time of the last real measurement
+}
+
+export interface TrackedPosition {
+  x: number;
+  y: number;
+  vx: number; // px/s
+  vy: number;
+  predicted: boolean; // no measurement this frame, extrapolated from the velocity
+}
+
+// Longest dropout bridged by prediction before the beam counts as lost, ms
+const MAX_PREDICTION_TIME = 400;
+// Innovations this far out are another beam or a jump, not motion
+const GATE_SIGMAS = 6;
+const MIN_GATE = 40; // px
+// Velocity uncertainty of a freshly started track, px/s
+const INITIAL_VELOCITY_SIGMA = 500;
+
+export function createTracker(): TrackerState {
+  return { x: null, y: null, lastTime: 0, lastMeasured: 0 };
+}
+
+export function resetTracker(state: TrackerState) {
+  state.x = null;
+  state.y = null;
+}
+
+// Smoothing 0 follows the measurements almost exactly, 10 trusts the motion
+// model and irons out jitter at the cost of some lag
+function noiseFor(smoothing: number) {
+  const measurementSigma = 1 + smoothing * 2; // px
+  const accelerationSigma = 4000 / (1 + smoothing) ** 2; // px/s^2
+  return { r: measurementSigma ** 2, q: accelerationSigma ** 2 };
+}
+
+function startAxis(position: number, r: number): AxisState {
+  return { position, velocity: 0, pp: r, pv: 0, vv: INITIAL_VELOCITY_SIGMA ** 2 };
+}
+
+// Time update with white acceleration noise
+function predictAxis(axis: AxisState, dt: number, q: number) {
+  axis.position += axis.velocity * dt;
+  const pp = axis.pp + 2 * dt * axis.pv + dt * dt * axis.vv + q * dt ** 4 / 4;
+  const pv = axis.pv + dt * axis.vv + q * dt ** 3 / 2;
+  const vv = axis.vv + q * dt * dt;
+  axis.pp = pp;
+  axis.pv = pv;
+  axis.vv = vv;
+}
+
+function correctAxis(axis: AxisState, measurement: number, r: number) {
+  const s = axis.pp + r;
+  const kp = axis.pp / s;
+  const kv = axis.pv / s;
+  const innovation = measurement - axis.position;
+
+  axis.position += kp * innovation;
+  axis.velocity += kv * innovation;
+  const pp = (1 - kp) * axis.pp;
+  const pv = (1 - kp) * axis.pv;
+  const vv = axis.vv - kv * axis.pv;
+  axis.pp = pp;
+  axis.pv = pv;
+  axis.vv = vv;
+}
+
+function outside(axis: AxisState, measurement: number, r: number) {
+  const gate = Math.max(MIN_GATE, GATE_SIGMAS * Math.sqrt(axis.pp + r));
+  return Math.abs(measurement - axis.position) > gate;
+}
+
+// Advances the track to `time` (ms) and folds in the measurement if there is
+// one. Returns null when there is nothing to report: no track yet, or a
+// dropout too long to bridge.
+export function updateTracker(
+  state: TrackerState,
+  measurement: { x: number; y: number } | null,
+  time: number,
+  smoothing: number
+): TrackedPosition | null {
+  const { r, q } = noiseFor(smoothing);
+
+  if (state.x && state.y) {
+    const dt = Math.max(0, (time - state.lastTime) / 1000);
+    predictAxis(state.x, dt, q);
+    predictAxis(state.y, dt, q);
+  }
+  state.lastTime = time;
+
+  if (!measurement) {
+    if (!state.x || !state.y || time - state.lastMeasured > MAX_PREDICTION_TIME) {
+      resetTracker(state);
+      return null;
+    }
+    return { x: state.x.position, y: state.y.position, vx: state.x.velocity, vy: state.y.velocity, predicted: true };
+  }
+
+  if (!state.x || !state.y || outside(state.x, measurement.x, r) || outside(state.y, measurement.y, r)) {
+    state.x = startAxis(measurement.x, r);
+    state.y = startAxis(measurement.y, r);
+  } else {
+    correctAxis(state.x, measurement.x, r);
+    correctAxis(state.y, measurement.y, r);
+  }
+  state.lastMeasured = time;
+
+  return { x: state.x.position, y: state.y.position, vx: state.x.velocity, vy: state.y.velocity, predicted: false };
+}
@@ -50,6 +50,7 @@ export default {
         laser: {
           red: "hsl(var(--laser-red))",
           green: "hsl(var(--laser-green))",
+          blue: "hsl(var(--laser-blue))",
           detected: "hsl(var(--laser-detected))",
           notFound: "hsl(var(--laser-not-found))",
         },